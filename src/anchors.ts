@@ -0,0 +1,153 @@
+import { readPdfText, type PdfPage } from "./pdf";
+import type {
+  AnchorFieldType,
+  AnchorIssue,
+  AnchorScanOptions,
+  AnchorScanResult,
+  SmartAnchor,
+} from "./types";
+
+const ANCHOR_TYPES: AnchorFieldType[] = [
+  "signature",
+  "mention",
+  "text",
+  "checkbox",
+  "radio",
+];
+
+type Located = Pick<AnchorIssue, "tag" | "page" | "x" | "y">;
+
+/**
+ * Parses the content of a tag
+ * @returns the anchor, or why the tag is malformed
+ */
+function parseTag(
+  content: string,
+  located: Located,
+): SmartAnchor | { message: string } {
+  const [signer, type, width, height] = content.split("|");
+
+  const index = /^s(\d+)$/.exec(signer?.trim() ?? "");
+  if (!index || Number(index[1]) < 1) {
+    return {
+      message: `"${signer}" is not a signer index, expected s1, s2, ...`,
+    };
+  }
+  if (!ANCHOR_TYPES.includes(type?.trim() as AnchorFieldType)) {
+    return {
+      message: `"${type ?? ""}" is not a field type, expected one of ${ANCHOR_TYPES.join(", ")}`,
+    };
+  }
+  for (const [name, value] of [
+    ["width", width],
+    ["height", height],
+  ]) {
+    if (!/^\d+$/.test(value?.trim() ?? "") || Number(value) < 1) {
+      return {
+        message: `${name} "${value ?? ""}" must be a positive integer`,
+      };
+    }
+  }
+
+  return {
+    ...located,
+    signer: Number(index[1]),
+    type: type.trim() as AnchorFieldType,
+    width: Number(width),
+    height: Number(height),
+  };
+}
+
+function scanPage(
+  { mediaBox, glyphs }: PdfPage,
+  page: number,
+  options: AnchorScanOptions,
+  result: AnchorScanResult,
+) {
+  //text of the page with the glyph every character comes from
+  let text = "";
+  const origins: number[] = [];
+  glyphs.forEach((glyph, i) => {
+    text += glyph.text;
+    origins.push(...Array.from(glyph.text, () => i));
+  });
+
+  const locate = (tag: string, index: number): Located => {
+    const glyph = glyphs[origins[index]];
+    return {
+      tag,
+      page,
+      x: Math.round(glyph.x - mediaBox[0]),
+      y: Math.round(mediaBox[3] - glyph.y - glyph.size),
+    };
+  };
+
+  const covered = new Set<number>();
+  for (const match of text.matchAll(/\{\{([^{}\n]*)\}\}/g)) {
+    covered.add(match.index);
+    const located = locate(match[0], match.index);
+    const anchor = parseTag(match[1], located);
+
+    if ("message" in anchor) {
+      result.issues.push({ ...located, reason: "malformed", ...anchor });
+    } else if (
+      options.signers !== undefined &&
+      anchor.signer > options.signers
+    ) {
+      result.issues.push({
+        ...located,
+        reason: "unknown_signer",
+        message: `Signer s${anchor.signer} doesn't exist, only ${options.signers} signer(s) will be added`,
+      });
+    } else {
+      result.anchors.push(anchor);
+    }
+  }
+
+  //opening braces that never got closed
+  for (const match of text.matchAll(/\{\{(?!\{)/g)) {
+    if (!covered.has(match.index)) {
+      const tag = text.slice(match.index, match.index + 32);
+      result.issues.push({
+        ...locate(tag, match.index),
+        reason: "malformed",
+        message: "The tag is not closed with }}",
+      });
+    }
+  }
+}
+
+/**
+ * Reads the text of a PDF and finds the smart anchors YouSign would turn into fields with `parse_anchors: true`.
+ * Positions are approximated from the text layer, tags inside images (e.g. scanned documents) are not found
+ * @param pdf content of the PDF
+ * @param options number of signers to check the signer indexes against
+ * @returns the valid anchors and the tags that won't work
+ * @throws {Error} The file is not a PDF or is encrypted
+ *
+ * @example
+ * ```ts
+ * const { anchors, issues } = await scanAnchors(file, { signers: 2 });
+ * if (issues.length) {
+ *   throw new Error(issues.map((issue) => `page ${issue.page}: ${issue.message}`).join("\n"));
+ * }
+ * ```
+ */
+export async function scanAnchors(
+  pdf: Uint8Array | ArrayBuffer | Blob,
+  options: AnchorScanOptions = {},
+): Promise<AnchorScanResult> {
+  const bytes =
+    pdf instanceof Blob
+      ? new Uint8Array(await pdf.arrayBuffer())
+      : new Uint8Array(pdf);
+  const pages = await readPdfText(bytes);
+
+  const result: AnchorScanResult = {
+    pages: pages.length,
+    anchors: [],
+    issues: [],
+  };
+  pages.forEach((page, i) => scanPage(page, i + 1, options, result));
+  return result;
+}
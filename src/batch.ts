@@ -0,0 +1,48 @@
+import type { BatchItemResult, ConcurrentBatchOptions } from "./types";
+
+/**
+ * Runs the worker for every item with at most `concurrency` items in flight
+ * @param items items to process
+ * @param worker async function processing a single item
+ * @param options concurrency and whether to stop at the first failure
+ * @returns the outcome of every item, in the same order as the items
+ * @throws {RangeError} The concurrency is not a positive integer
+ */
+export async function runBatch<I, T>(
+  items: I[],
+  worker: (item: I, index: number) => Promise<T>,
+  options: ConcurrentBatchOptions = {},
+): Promise<BatchItemResult<T>[]> {
+  const { concurrency = 3, stopOnError = false } = options;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new RangeError(
+      `concurrency must be a positive integer, got ${concurrency}`,
+    );
+  }
+  const results: BatchItemResult<T>[] = items.map((_, index) => ({
+    status: "skipped",
+    index,
+  }));
+
+  let next = 0;
+  let failed = false;
+
+  const lane = async () => {
+    while (next < items.length && !(stopOnError && failed)) {
+      const index = next++;
+      try {
+        const value = await worker(items[index], index);
+        results[index] = { status: "fulfilled", index, value };
+      } catch (reason) {
+        failed = true;
+        results[index] = { status: "rejected", index, reason };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, lane),
+  );
+
+  return results;
+}
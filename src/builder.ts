@@ -0,0 +1,247 @@
+import type { BaseClient } from "./index";
+import type {
+  AddApproverOptions,
+  AddApproverResponse,
+  AddFileOptions,
+  AddFileResponse,
+  AddSignerOptions,
+  AddSignerResponse,
+  CreateSignatureRequestOptions,
+  FieldInput,
+  Nullable,
+  SignatureRequestActivateResponse,
+} from "./types";
+
+/** Step of the flow run by the SignatureRequestBuilder */
+export type BuilderStep =
+  | "create"
+  | "documents"
+  | "signers"
+  | "approvers"
+  | "activate";
+
+/** What happened to the draft after a step failed */
+export type RollbackOutcome = "deleted" | "canceled" | "skipped" | "failed";
+
+/** Everything that got created when the flow succeeded */
+export type BuilderSuccess = {
+  ok: true;
+  signatureRequest: SignatureRequestActivateResponse;
+  /** Uploaded documents by the reference they were added with */
+  documents: Record<string, AddFileResponse>;
+  signers: AddSignerResponse[];
+  approvers: AddApproverResponse[];
+};
+
+/** Step that failed and how the draft got cleaned up */
+export type BuilderFailure = {
+  ok: false;
+  step: BuilderStep;
+  error: unknown;
+  /** Id of the draft, null if the creation itself failed */
+  signatureRequestId: Nullable<string>;
+  rollback: RollbackOutcome;
+  /** Error thrown while deleting or canceling the draft */
+  rollbackError?: unknown;
+};
+
+/** Result of {@link SignatureRequestBuilder.send} */
+export type BuilderResult = BuilderSuccess | BuilderFailure;
+
+/** Options of the SignatureRequestBuilder */
+export type BuilderOptions = {
+  /**
+   * Delete the draft permanently if a step fails
+   * @default true
+   */
+  permanentDelete?: boolean;
+};
+
+/**
+ * Collects documents, signers, approvers and settings and runs the whole flow
+ * (create → add documents → add signers → add approvers → activate) in a single `send()`.
+ * Fields and `insert_after_id` can reference the documents by the reference they were added with,
+ * if a step fails the draft gets deleted (or canceled if it got activated already)
+ *
+ * @example
+ * ```ts
+ * const result = await new SignatureRequestBuilder(yousign, {
+ *   name: "Contract",
+ *   delivery_mode: "email",
+ * })
+ *   .addDocument("contract", { file, nature: "signable_document" })
+ *   .addSigner({
+ *     info,
+ *     signature_level: "electronic_signature",
+ *     fields: [{ type: "signature", document_id: "contract", page: 1, x: 100, y: 100 }],
+ *   })
+ *   .send();
+ *
+ * if (!result.ok) {
+ *   console.log(`Failed at ${result.step}, draft ${result.rollback}`);
+ * }
+ * ```
+ */
+export class SignatureRequestBuilder {
+  private readonly documents: [string, AddFileOptions][] = [];
+  private readonly signers: AddSignerOptions[] = [];
+  private readonly approvers: AddApproverOptions[] = [];
+  private options: CreateSignatureRequestOptions;
+
+  constructor(
+    private readonly client: BaseClient,
+    options: CreateSignatureRequestOptions,
+    private readonly builderOptions: BuilderOptions = {},
+  ) {
+    this.options = { ...options };
+  }
+
+  /**
+   * Changes the settings of the signature request that will be created
+   * @param options settings to merge into the current ones
+   */
+  settings(options: Partial<CreateSignatureRequestOptions>): this {
+    this.options = { ...this.options, ...options };
+    return this;
+  }
+
+  /**
+   * Adds a document, uploaded in the order they were added
+   * @param ref reference the fields and `insert_after_id` of the other documents can use as `document_id`
+   * @param options document options
+   */
+  addDocument(ref: string, options: AddFileOptions): this {
+    if (this.documents.some(([existing]) => existing === ref)) {
+      throw new Error(`Document reference "${ref}" is already used`);
+    }
+    this.documents.push([ref, options]);
+    return this;
+  }
+
+  /**
+   * Adds a signer, `document_id` of the fields can be the reference of a document added to the builder
+   * @param options signer options
+   */
+  addSigner(options: AddSignerOptions): this {
+    this.signers.push(options);
+    return this;
+  }
+
+  /**
+   * Adds an approver that has to approve the request before the signers are notified
+   * @param options approver options
+   */
+  addApprover(options: AddApproverOptions): this {
+    this.approvers.push(options);
+    return this;
+  }
+
+  /**
+   * Runs the whole flow, never throws for failed API calls
+   * @returns the created resources, or the failed step with the outcome of the rollback
+   * @throws {Error} No document or signer was added
+   */
+  async send(): Promise<BuilderResult> {
+    if (!this.documents.length) {
+      throw new Error("At least one document is required");
+    }
+    if (!this.signers.length) {
+      throw new Error("At least one signer is required");
+    }
+
+    let step: BuilderStep = "create";
+    let signatureRequestId: Nullable<string> = null;
+    const documents: Record<string, AddFileResponse> = {};
+
+    const resolve = (documentId: string) =>
+      documents[documentId]?.id ?? documentId;
+
+    try {
+      const request = await this.client.createSignatureRequest(this.options);
+      signatureRequestId = request.id;
+
+      step = "documents";
+      for (const [ref, options] of this.documents) {
+        documents[ref] = await this.client.addDocument(signatureRequestId, {
+          ...options,
+          insert_after_id:
+            options.insert_after_id && resolve(options.insert_after_id),
+        });
+      }
+
+      step = "signers";
+      const signers: AddSignerResponse[] = [];
+      for (const options of this.signers) {
+        signers.push(
+          await this.client.addSigner(signatureRequestId, {
+            ...options,
+            fields: options.fields?.map(
+              (field) =>
+                ({
+                  ...field,
+                  document_id: resolve(field.document_id),
+                }) as FieldInput,
+            ),
+          }),
+        );
+      }
+
+      step = "approvers";
+      const approvers: AddApproverResponse[] = [];
+      for (const options of this.approvers) {
+        approvers.push(
+          await this.client.addApprover(signatureRequestId, options),
+        );
+      }
+
+      step = "activate";
+      const signatureRequest =
+        await this.client.activateSignatureRequest(signatureRequestId);
+
+      return { ok: true, signatureRequest, documents, signers, approvers };
+    } catch (error) {
+      if (!signatureRequestId) {
+        return {
+          ok: false,
+          step,
+          error,
+          signatureRequestId,
+          rollback: "skipped",
+        };
+      }
+      return {
+        ok: false,
+        step,
+        error,
+        signatureRequestId,
+        ...(await this.rollback(signatureRequestId)),
+      };
+    }
+  }
+
+  private async rollback(
+    signatureRequestId: string,
+  ): Promise<{ rollback: RollbackOutcome; rollbackError?: unknown }> {
+    try {
+      const { status } =
+        await this.client.getSignatureRequest(signatureRequestId);
+
+      if (status === "draft") {
+        await this.client.deleteSignatureRequest(
+          signatureRequestId,
+          this.builderOptions.permanentDelete ?? true,
+        );
+        return { rollback: "deleted" };
+      }
+      if (status === "ongoing" || status === "approval") {
+        await this.client.cancelSignatureRequest(signatureRequestId, {
+          reason: "other",
+        });
+        return { rollback: "canceled" };
+      }
+      return { rollback: "skipped" };
+    } catch (rollbackError) {
+      return { rollback: "failed", rollbackError };
+    }
+  }
+}
@@ -3,28 +3,93 @@ function capitalizeFirst(input: string) {
 }
 
 /** Decorator for methods that tells the GenHooks to ignore the decorated method and not generate hooks for it*/
-export function NoHook(target: any, context: ClassMethodDecoratorContext<any>) {
-  if (!target.constructor.prototype.__skipLog__) {
-    target.constructor.prototype.__skipLog__ = [];
+export function NoHook(target: any, key: string, _?: PropertyDescriptor) {
+  //a subclass gets its own list instead of pushing into the one of its parent
+  if (!Object.hasOwn(target, "__skipLog__")) {
+    target.__skipLog__ = [...(target.__skipLog__ ?? [])];
   }
-  target.constructor.prototype.__skipLog__.push(context);
+  target.__skipLog__.push(key);
+}
+
+const AsyncGeneratorFunction = Object.getPrototypeOf(async function* () {})
+  .constructor as Function;
+
+type HookFunction = (...args: any[]) => any;
+
+/** Calls the onBefore hooks in order, each one gets the arguments the previous one returned */
+async function runBeforeHooks(
+  hooks: HookFunction[],
+  args: any[],
+): Promise<{ args: any[] } | { result: unknown }> {
+  for (const hook of hooks) {
+    const outcome = await hook(...args);
+    if (outcome && typeof outcome === "object") {
+      if ("result" in outcome) {
+        return outcome;
+      }
+      if (Array.isArray(outcome.args)) {
+        args = outcome.args;
+      }
+    }
+  }
+  return { args };
+}
+
+/** Calls the onAfter hooks in order, each one gets the result the previous one returned */
+async function runAfterHooks(
+  hooks: HookFunction[],
+  [result, ...args]: any[],
+): Promise<unknown> {
+  for (const hook of hooks) {
+    const transformed = await hook(result, ...args);
+    if (transformed !== undefined) {
+      result = transformed;
+    }
+  }
+  return result;
+}
+
+/** Keeps the error of a failing onError hook as cause of the error of the method, next to the cause it already had */
+function attachHookError(error: unknown, hookError: unknown) {
+  if (!(error instanceof Error)) {
+    return;
+  }
+  error.cause =
+    error.cause === undefined
+      ? hookError
+      : new AggregateError(
+          [error.cause, hookError],
+          "The method and its onError hook failed",
+        );
 }
 
 /**
  * Decorator for classes that generates hooks for a given class before and after each method is called.
+ * - `onBefore*` hooks get the arguments, they can return `{ args }` to change them or `{ result }` to skip the call
+ * - `onAfter*` hooks get the result followed by the arguments, they can return a new result
+ * - `onError*` hooks get the error of the method followed by the arguments, the error is rethrown afterwards,
+ *   even if one of the hooks throws
+ *
+ * Async generator methods (e.g. the pagination iterators) are left untouched, since awaiting them would break the iteration
  */
 export function GenHooks<T>(target: { new (...args: any[]): T }) {
-  const originalMethod = target.prototype.constructor;
-  let proto = originalMethod.prototype;
-  while (proto !== null) {
+  const seen = new Set(["constructor"]);
+  let proto = target.prototype;
+  while (proto !== null && proto !== Object.prototype) {
     // Iterate over each method in the prototype
     Object.getOwnPropertyNames(proto).forEach((key) => {
+      //methods overridden further down the chain keep their own implementation
+      if (seen.has(key)) {
+        return;
+      }
+      seen.add(key);
       const descriptor = Object.getOwnPropertyDescriptor(proto, key);
 
       // Apply logging to methods unless excluded
       if (
         descriptor &&
         descriptor.value instanceof Function &&
+        !(descriptor.value instanceof AsyncGeneratorFunction) &&
         !proto.__skipLog__?.includes(key)
       ) {
         const originalFn = descriptor.value;
@@ -38,16 +103,41 @@ export function GenHooks<T>(target: { new (...args: any[]): T }) {
 
           const hookBaseName = capitalizeFirst(key);
 
-          this.hooks.callHook(`onBefore${hookBaseName}`, ...args);
-
-          const result = await originalFn.apply(this, args);
+          const before = await this.hooks.callHookWith(
+            runBeforeHooks,
+            `onBefore${hookBaseName}`,
+            ...args,
+          );
+          if ("result" in before) {
+            return before.result;
+          }
+          args = before.args;
 
-          this.hooks.callHook(`onAfter${hookBaseName}`, ...args);
+          let result: unknown;
+          try {
+            result = await originalFn.apply(this, args);
+          } catch (error) {
+            try {
+              await this.hooks.callHook(
+                `onError${hookBaseName}`,
+                error,
+                ...args,
+              );
+            } catch (hookError) {
+              attachHookError(error, hookError);
+            }
+            throw error;
+          }
 
-          return result;
+          return await this.hooks.callHookWith(
+            runAfterHooks,
+            `onAfter${hookBaseName}`,
+            result,
+            ...args,
+          );
         };
 
-        Object.defineProperty(originalMethod.prototype, key, descriptor);
+        Object.defineProperty(target.prototype, key, descriptor);
       }
     });
 
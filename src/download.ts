@@ -0,0 +1,118 @@
+import { IntegrityError } from "./errors";
+import { Sha256 } from "./sha256";
+import type {
+  DownloadDestination,
+  DownloadProgress,
+  NodeWritableLike,
+} from "./types";
+
+/**
+ * Pipes the stream through a transform that reports the progress and checks the SHA-256 at the end
+ * @param stream body of the download
+ * @param progress info about the download, `loaded` gets filled in
+ * @param onProgress called for every chunk
+ * @param expectedSha256 hex hash to compare to, the stream errors with an IntegrityError if it doesn't match
+ */
+export function trackStream(
+  stream: ReadableStream<Uint8Array>,
+  progress: Omit<DownloadProgress, "loaded">,
+  onProgress?: (progress: DownloadProgress) => void,
+  expectedSha256?: string,
+): ReadableStream<Uint8Array> {
+  const hash = expectedSha256 ? new Sha256() : null;
+  let loaded = 0;
+
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        loaded += chunk.length;
+        hash?.update(chunk);
+        onProgress?.({ ...progress, loaded });
+        controller.enqueue(chunk);
+      },
+      flush() {
+        if (!hash || !expectedSha256) {
+          return;
+        }
+        const actual = hash.digest();
+        if (actual !== expectedSha256.toLowerCase()) {
+          throw new IntegrityError(expectedSha256, actual);
+        }
+      },
+    }),
+  );
+}
+
+function isNodeWritable(
+  destination: DownloadDestination,
+): destination is NodeWritableLike {
+  return (
+    typeof destination === "object" &&
+    typeof (destination as NodeWritableLike).write === "function" &&
+    typeof (destination as NodeWritableLike).once === "function"
+  );
+}
+
+async function writeToNode(
+  stream: ReadableStream<Uint8Array>,
+  writable: NodeWritableLike,
+): Promise<void> {
+  let failure: unknown = null;
+  //a single error listener for the whole write, it also ends the wait for a drain
+  let drained: (() => void) | null = null;
+  writable.once("error", (error) => {
+    failure = error;
+    drained?.();
+  });
+
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      if (failure) {
+        throw failure;
+      }
+      if (!writable.write(value)) {
+        await new Promise<void>((resolve) => {
+          drained = resolve;
+          writable.once("drain", resolve);
+        });
+        drained = null;
+        if (failure) {
+          throw failure;
+        }
+      }
+    }
+  } catch (error) {
+    await reader.cancel(error).catch(() => {});
+    writable.end();
+    throw error;
+  }
+
+  await new Promise<void>((resolve) => writable.end(resolve));
+  if (failure) {
+    throw failure;
+  }
+}
+
+/**
+ * Writes the stream to a WritableStream, a Node.js writable or a file path
+ * @param stream body of the download
+ * @param destination where to write to, a file is created or overwritten
+ */
+export async function writeStream(
+  stream: ReadableStream<Uint8Array>,
+  destination: DownloadDestination,
+): Promise<void> {
+  if (typeof destination === "string") {
+    const { createWriteStream } = await import("node:fs");
+    return writeToNode(stream, createWriteStream(destination));
+  }
+  if (isNodeWritable(destination)) {
+    return writeToNode(stream, destination);
+  }
+  return stream.pipeTo(destination);
+}
@@ -0,0 +1,268 @@
+import { FetchError, type $Fetch } from "ofetch";
+import { wrapFetch } from "./fetch";
+import type {
+  ApiProblem,
+  ApiViolation,
+  FixtureRequest,
+  ValidationIssue,
+} from "./types";
+
+type ApiErrorDetails = {
+  status: number;
+  method: string;
+  endpoint: string;
+  requestId: string | null;
+  problem: ApiProblem | null;
+  cause?: unknown;
+};
+
+/**
+ * Error thrown for every request the YouSign API answers with a 4XX/5XX status.
+ * The more specific subclasses can be used to branch with `instanceof`
+ */
+export class YouSignApiError extends Error {
+  /** HTTP status of the response */
+  readonly status: number;
+  /** HTTP method of the failed request */
+  readonly method: string;
+  /** URL of the failed request */
+  readonly endpoint: string;
+  /** Value of the `x-request-id` header, useful when contacting the YouSign support */
+  readonly requestId: string | null;
+  /** Parsed problem body of the response, null if the body wasn't JSON */
+  readonly problem: ApiProblem | null;
+
+  constructor(details: ApiErrorDetails) {
+    super(
+      `${details.method} ${details.endpoint} failed with status ${details.status}${
+        details.problem?.detail ?? details.problem?.title
+          ? `: ${details.problem.detail ?? details.problem.title}`
+          : ""
+      }`,
+      { cause: details.cause },
+    );
+    this.name = "YouSignApiError";
+    this.status = details.status;
+    this.method = details.method;
+    this.endpoint = details.endpoint;
+    this.requestId = details.requestId;
+    this.problem = details.problem;
+  }
+}
+
+/** The payload was rejected by the API (400/422), check the violations for the fields */
+export class ValidationError extends YouSignApiError {
+  /** Fields that failed the validation */
+  readonly violations: ApiViolation[];
+
+  constructor(details: ApiErrorDetails) {
+    super(details);
+    this.name = "ValidationError";
+    this.violations = details.problem?.invalid_params ?? [];
+  }
+}
+
+/** The API key is missing, invalid or not allowed to access the resource (401/403) */
+export class AuthenticationError extends YouSignApiError {
+  constructor(details: ApiErrorDetails) {
+    super(details);
+    this.name = "AuthenticationError";
+  }
+}
+
+/** The requested resource doesn't exist (404) */
+export class NotFoundError extends YouSignApiError {
+  constructor(details: ApiErrorDetails) {
+    super(details);
+    this.name = "NotFoundError";
+  }
+}
+
+/** The resource isn't in a state that allows the action, e.g. activating a request twice (409) */
+export class ConflictError extends YouSignApiError {
+  constructor(details: ApiErrorDetails) {
+    super(details);
+    this.name = "ConflictError";
+  }
+}
+
+/** Too many requests were sent in the quota window (429) */
+export class RateLimitError extends YouSignApiError {
+  /** Seconds to wait before sending the next request, null if the API didn't say */
+  readonly retryAfter: number | null;
+
+  constructor(details: ApiErrorDetails & { retryAfter: number | null }) {
+    super(details);
+    this.name = "RateLimitError";
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+/** The payload breaks the constraints of the API, thrown before any request is sent */
+export class RequestValidationError extends Error {
+  constructor(readonly issues: ValidationIssue[]) {
+    super(
+      `Invalid payload:\n${issues.map(({ path, message }) => `  ${path}: ${message}`).join("\n")}`,
+    );
+    this.name = "RequestValidationError";
+  }
+}
+
+/** A placeholder of the template has no value in the passed mapping, thrown before any request is sent */
+export class TemplatePlaceholderError extends Error {
+  /** Labels of the placeholders without a value */
+  readonly missing: string[];
+
+  constructor(templateId: string, missing: string[]) {
+    super(
+      `Template ${templateId} has placeholders without a value: ${missing.join(", ")}`,
+    );
+    this.name = "TemplatePlaceholderError";
+    this.missing = missing;
+  }
+}
+
+/** The SHA-256 of a downloaded document doesn't match the one stored on YouSign */
+export class IntegrityError extends Error {
+  constructor(
+    readonly expected: string,
+    readonly actual: string,
+  ) {
+    super(`SHA-256 mismatch, expected ${expected} but got ${actual}`);
+    this.name = "IntegrityError";
+  }
+}
+
+/** A download answered without a body, e.g. a 204, so there is nothing to stream */
+export class EmptyDownloadError extends Error {
+  constructor(
+    readonly status: number,
+    readonly url: string,
+  ) {
+    super(`The download of ${url} answered ${status} without a body`);
+    this.name = "EmptyDownloadError";
+  }
+}
+
+/** A request sent while replaying has no matching interaction left in the fixture file */
+export class FixtureMismatchError extends Error {
+  constructor(
+    readonly request: FixtureRequest,
+    readonly path: string,
+  ) {
+    super(
+      `No interaction left in ${path} for ${request.method} ${request.path}${request.body === undefined ? "" : ` with body ${JSON.stringify(request.body)}`}`,
+    );
+    this.name = "FixtureMismatchError";
+  }
+}
+
+function parseRetryAfter(headers: Headers): number | null {
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return seconds;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, (date - Date.now()) / 1000);
+    }
+  }
+
+  //rate limit reset is either the seconds until the window resets or a unix timestamp
+  const reset = Number(headers.get("x-ratelimit-reset") ?? NaN);
+  if (Number.isNaN(reset)) {
+    return null;
+  }
+  return reset > 1_000_000_000 ? Math.max(0, reset - Date.now() / 1000) : reset;
+}
+
+/**
+ * Problem details of a failed response. Blob and stream requests get the raw body from ofetch,
+ * so it's read here, as long as the API answered with JSON
+ */
+async function readProblem(
+  response: Response,
+  data: unknown,
+): Promise<ApiProblem | null> {
+  if (!/json/.test(response.headers.get("content-type") ?? "")) {
+    return null;
+  }
+  try {
+    const body =
+      data instanceof Blob || data instanceof ReadableStream
+        ? JSON.parse(await new Response(data).text())
+        : data;
+    return typeof body === "object" && body !== null && !Array.isArray(body)
+      ? (body as ApiProblem)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Converts the FetchError of ofetch into the matching YouSignApiError.
+ * Errors without a response (network failures, aborts) are returned untouched
+ */
+export async function toApiError(error: unknown): Promise<unknown> {
+  //replaying fixtures fails before ofetch gets a response
+  if (
+    error instanceof FetchError &&
+    error.cause instanceof FixtureMismatchError
+  ) {
+    return error.cause;
+  }
+  if (!(error instanceof FetchError) || !error.response) {
+    return error;
+  }
+
+  const { response } = error;
+  const request = error.request;
+  const details: ApiErrorDetails = {
+    status: response.status,
+    method: (error.options?.method ?? "GET").toUpperCase(),
+    endpoint:
+      typeof request === "string" ? request : (request?.url ?? response.url),
+    requestId:
+      response.headers.get("x-request-id") ??
+      response.headers.get("request-id"),
+    problem: await readProblem(response, error.data),
+    cause: error,
+  };
+
+  switch (response.status) {
+    case 400:
+    case 422:
+      return new ValidationError(details);
+    case 401:
+    case 403:
+      return new AuthenticationError(details);
+    case 404:
+      return new NotFoundError(details);
+    case 409:
+      return new ConflictError(details);
+    case 429:
+      return new RateLimitError({
+        ...details,
+        retryAfter: parseRetryAfter(response.headers),
+      });
+    default:
+      return new YouSignApiError(details);
+  }
+}
+
+/**
+ * Wraps an ofetch instance so every failed response is thrown as a YouSignApiError
+ * @param fetch ofetch instance with the YouSign baseURL and auth headers
+ */
+export function withApiErrors(fetch: $Fetch): $Fetch {
+  return wrapFetch(fetch, async (_, options, send) => {
+    try {
+      return await send(options);
+    } catch (error) {
+      throw await toApiError(error);
+    }
+  });
+}
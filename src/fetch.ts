@@ -0,0 +1,36 @@
+import type { $Fetch, FetchOptions, FetchRequest, ResponseType } from "ofetch";
+
+/**
+ * Runs around every request of a wrapped ofetch instance
+ * @param request URL or Request passed to the instance
+ * @param options options passed to the instance
+ * @param send sends the request with the given options, can be called again to resend it
+ */
+export type FetchAround = <R extends ResponseType, T>(
+  request: FetchRequest,
+  options: FetchOptions<R> | undefined,
+  send: (options?: FetchOptions<R>) => Promise<T>,
+) => Promise<T>;
+
+/**
+ * Wraps the calls and `.raw` calls of an ofetch instance, the instances made with `.create` are wrapped the same way
+ * @param fetch ofetch instance to wrap
+ * @param around runs every request
+ */
+export function wrapFetch(fetch: $Fetch, around: FetchAround): $Fetch {
+  return Object.assign(
+    <T, R extends ResponseType = "json">(
+      request: FetchRequest,
+      options?: FetchOptions<R>,
+    ) => around(request, options, (sent) => fetch<T, R>(request, sent)),
+    {
+      raw: <T, R extends ResponseType = "json">(
+        request: FetchRequest,
+        options?: FetchOptions<R>,
+      ) => around(request, options, (sent) => fetch.raw<T, R>(request, sent)),
+      native: fetch.native,
+      create: (...args: Parameters<$Fetch["create"]>) =>
+        wrapFetch(fetch.create(...args), around),
+    },
+  );
+}
@@ -0,0 +1,259 @@
+import { FixtureMismatchError } from "./errors";
+import { Sha256 } from "./sha256";
+import type {
+  FixtureFile,
+  FixtureInteraction,
+  FixtureOptions,
+  FixtureRequest,
+  FixtureResponse,
+} from "./types";
+
+const REDACTED = "[REDACTED]";
+
+/** Links whose query carries the token that gives access to the signature */
+const LINK_PROPERTIES = ["signature_link", "approval_link"];
+const SECRET_PROPERTIES = ["secret_key"];
+
+/** Response headers worth keeping, the others change on every request */
+const KEPT_HEADERS = [
+  "content-type",
+  "content-disposition",
+  "retry-after",
+  "x-request-id",
+  "x-ratelimit-limit",
+  "x-ratelimit-remaining",
+  "x-ratelimit-reset",
+];
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+/** JSON with sorted keys, so equal bodies compare equal whatever the order of their properties */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_, inner) =>
+    inner && typeof inner === "object" && !Array.isArray(inner)
+      ? Object.fromEntries(
+          Object.entries(inner).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : inner,
+  );
+}
+
+function redactLink(link: string): string {
+  try {
+    const url = new URL(link);
+    for (const key of [...url.searchParams.keys()]) {
+      url.searchParams.set(key, REDACTED);
+    }
+    return url.toString();
+  } catch {
+    return REDACTED;
+  }
+}
+
+function redact(value: unknown, properties: string[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, properties));
+  }
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, inner]) => {
+      if (typeof inner === "string" && LINK_PROPERTIES.includes(key)) {
+        return [key, redactLink(inner)];
+      }
+      if (inner !== null && properties.includes(key)) {
+        return [key, REDACTED];
+      }
+      return [key, redact(inner, properties)];
+    }),
+  );
+}
+
+/** Converts the request into its stored form, files are replaced by their hash */
+async function describeRequest(request: Request): Promise<FixtureRequest> {
+  const url = new URL(request.url);
+  url.searchParams.sort();
+  const described: FixtureRequest = {
+    method: request.method,
+    path: url.pathname + url.search,
+  };
+
+  const type = request.headers.get("content-type") ?? "";
+  if (!request.body) {
+    return described;
+  }
+  if (type.startsWith("multipart/form-data")) {
+    const body: Record<string, unknown> = {};
+    for (const [name, value] of await request.formData()) {
+      body[name] =
+        typeof value === "string"
+          ? value
+          : {
+              filename: value.name,
+              type: value.type,
+              size: value.size,
+              sha256: new Sha256()
+                .update(new Uint8Array(await value.arrayBuffer()))
+                .digest(),
+            };
+    }
+    described.body = body;
+  } else {
+    const text = await request.text();
+    described.body = type.includes("json") && text ? JSON.parse(text) : text;
+  }
+  return described;
+}
+
+async function describeResponse(
+  response: Response,
+  properties: string[],
+): Promise<FixtureResponse> {
+  const type = response.headers.get("content-type") ?? "";
+  const headers: Record<string, string> = {};
+  for (const name of KEPT_HEADERS) {
+    const value = response.headers.get(name);
+    if (value !== null) {
+      headers[name] = value;
+    }
+  }
+
+  if (response.status === 204 || !response.body) {
+    return { status: response.status, headers, encoding: "text" };
+  }
+  if (type.includes("json")) {
+    const text = await response.text();
+    return {
+      status: response.status,
+      headers,
+      body: text ? redact(JSON.parse(text), properties) : undefined,
+      encoding: "json",
+    };
+  }
+  if (type.startsWith("text/")) {
+    return {
+      status: response.status,
+      headers,
+      body: await response.text(),
+      encoding: "text",
+    };
+  }
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  headers["content-length"] = String(bytes.length);
+  return {
+    status: response.status,
+    headers,
+    body: toBase64(bytes),
+    encoding: "base64",
+  };
+}
+
+function toResponse({
+  status,
+  headers,
+  body,
+  encoding,
+}: FixtureResponse): Response {
+  const content =
+    body === undefined
+      ? null
+      : encoding === "base64"
+        ? fromBase64(body as string)
+        : encoding === "json"
+          ? JSON.stringify(body)
+          : (body as string);
+  return new Response(content as BodyInit | null, { status, headers });
+}
+
+async function readFixtures(path: string): Promise<FixtureFile> {
+  const { readFile } = await import("node:fs/promises");
+  return JSON.parse(await readFile(path, "utf8"));
+}
+
+async function writeFixtures(path: string, text: string): Promise<void> {
+  const { mkdir, writeFile } = await import("node:fs/promises");
+  const directory = path.replace(/[\\/][^\\/]*$/, "");
+  if (directory !== path) {
+    await mkdir(directory, { recursive: true });
+  }
+  await writeFile(path, text);
+}
+
+/**
+ * Wraps a fetch to record the interactions with the API into a JSON file, or to answer from that file.
+ * When recording, the file is rewritten after every response, so it's complete once the last request resolved.
+ * API keys, secret keys and the tokens of the signature links never reach the file.
+ * When replaying, every request takes the first unused interaction with the same method, path, query and body,
+ * requests without one fail with a FixtureMismatchError
+ * @param options mode and file of the fixtures
+ * @param fetch fetch the recorded requests are sent with
+ */
+export function createFixtureFetch(
+  options: FixtureOptions,
+  fetch: typeof globalThis.fetch = globalThis.fetch,
+): typeof globalThis.fetch {
+  const properties = [...SECRET_PROPERTIES, ...(options.redact ?? [])];
+
+  if (options.mode === "record") {
+    const interactions: FixtureInteraction[] = [];
+    const apiKeys = new Set<string>();
+    let writing = Promise.resolve();
+
+    return async (input, init) => {
+      const request = new Request(input, init);
+      const token = request.headers
+        .get("authorization")
+        ?.replace(/^Bearer /, "");
+      token && apiKeys.add(token);
+
+      const described = await describeRequest(request.clone());
+      const response = await fetch(request);
+      interactions.push({
+        request: described,
+        response: await describeResponse(response.clone(), properties),
+      });
+
+      let text = JSON.stringify({ version: 1, interactions }, null, 2);
+      for (const apiKey of apiKeys) {
+        text = text.replaceAll(apiKey, REDACTED);
+      }
+      writing = writing.then(() => writeFixtures(options.path, text));
+      await writing;
+      return response;
+    };
+  }
+
+  let fixtures: Promise<{ interaction: FixtureInteraction; key: string }[]>;
+  const used = new Set<number>();
+
+  return async (input, init) => {
+    fixtures ??= readFixtures(options.path).then(({ interactions }) =>
+      interactions.map((interaction) => ({
+        interaction,
+        key: canonical(interaction.request),
+      })),
+    );
+    const described = await describeRequest(new Request(input, init));
+    const key = canonical(described);
+
+    const index = (await fixtures).findIndex(
+      (fixture, i) => !used.has(i) && fixture.key === key,
+    );
+    if (index === -1) {
+      throw new FixtureMismatchError(described, options.path);
+    }
+    used.add(index);
+    return toResponse((await fixtures)[index].interaction.response);
+  };
+}
@@ -43,34 +43,184 @@
  * ```
  */
 
-import { $fetch, type $Fetch } from "ofetch";
+import { $fetch, type $Fetch, type FetchResponse } from "ofetch";
+export * from "./anchors";
+export * from "./builder";
 export * from "./decorators";
+export * from "./errors";
+export * from "./fixtures";
+export * from "./middleware";
+export * from "./pagination";
+export * from "./placement";
+export * from "./retry";
+export * from "./scheduler";
+export * from "./tracing";
 export * from "./types";
+export * from "./validation";
 
 import type {
+  AddApproverOptions,
+  AddApproverResponse,
   AddFileResponse,
   AddFileOptions,
   AddSignerOptions,
   AddSignerResponse,
+  BatchItemResult,
+  BatchOptions,
+  CancelSignatureRequestOptions,
   CertificateData,
+  ClientHookable,
   ClientOptions,
+  ConcurrentBatchOptions,
+  Contact,
+  ContactQuery,
+  ContactQueryResult,
+  CreateContactOptions,
+  CreateFromTemplateOptions,
   CreateSignatureRequestOptions,
+  CreateWebhookOptions,
   DocumentInfo,
+  DownloadDestination,
+  DownloadProgress,
+  DownloadDocumentsOptions,
+  FieldInput,
+  Follower,
+  FollowerInfo,
   Hooks,
+  Middleware,
+  PaginationOptions,
+  ReactivateSignatureRequestOptions,
+  RequestOptions,
+  RetryInfo,
   SignatureRequest,
   SignatureRequestActivateResponse,
   SignatureRequestQuery,
   SignatureRequestQueryResult,
+  SignerFieldInput,
+  SignerInner,
+  StreamOptions,
+  Template,
+  TemplateQuery,
+  TemplateQueryResult,
+  UpdateApproverOptions,
+  UpdateContactOptions,
+  UpdateDocumentOptions,
+  UpdateFieldOptions,
+  UpdateSignatureRequestOptions,
+  UpdateSignerOptions,
+  UpdateWebhookOptions,
+  ValidationIssue,
+  ValidationMode,
+  WebhookSubscription,
 } from "./types";
 
-import { GenHooks } from "./decorators";
+import { runBatch } from "./batch";
+import { GenHooks, NoHook } from "./decorators";
+import { trackStream, writeStream } from "./download";
+import {
+  EmptyDownloadError,
+  TemplatePlaceholderError,
+  withApiErrors,
+} from "./errors";
+import { createFixtureFetch } from "./fixtures";
+import { withMiddleware } from "./middleware";
+import { paginate, paginatePages } from "./pagination";
+import { withRetry } from "./retry";
+import { RequestScheduler, withScheduler } from "./scheduler";
+import { traceMethods, withTracing } from "./tracing";
+import {
+  enforceValidation,
+  validateApprover,
+  validateCancelSignatureRequest,
+  validateContact,
+  validateCreateSignatureRequest,
+  validateField,
+  validateFollowers,
+  validateQuery,
+  validateSigner,
+  validateUpdateSignatureRequest,
+  validateUpdateSigner,
+} from "./validation";
 
-import { createHooks, Hookable, HookKeys } from "hookable";
+import { createHooks } from "hookable";
 
 function riseError(...args: Parameters<ErrorConstructor>): never {
   throw new Error(...args);
 }
 
+/**
+ * Loads the file from the url if it isn't a File/Blob already
+ * @param file file or url to load it from
+ */
+async function loadFile(file: AddFileOptions["file"]): Promise<Blob> {
+  if (file instanceof File || file instanceof Blob) {
+    return file;
+  }
+  if (typeof file === "string") {
+    const blob = await $fetch(file, {
+      responseType: "blob",
+    });
+
+    const fileName = file.split("/").pop();
+
+    return new File([blob], fileName);
+  }
+
+  const content = await $fetch(file.url, {
+    responseType: "arrayBuffer",
+    headers: file.headers,
+  });
+
+  const decoder = new TextDecoder(file.encoding);
+  const body = decoder.decode(content);
+
+  //read the content and decode it using the encoding prop
+  return new Blob([body], { type: file.mimeType });
+}
+
+function resolveBaseURL(options: ClientOptions): string {
+  if (options.baseURL) {
+    return options.baseURL;
+  }
+  return options.environment === "sandbox"
+    ? "https://api-sandbox.yousign.app/v3"
+    : options.environment === "production"
+      ? "https://api.yousign.app/v3"
+      : riseError(`Invalid environment: ${options.environment}`);
+}
+
+function resolveFetch(options: ClientOptions) {
+  return options.fixtures
+    ? createFixtureFetch(options.fixtures, options.fetch)
+    : options.fetch;
+}
+
+/** Fetch the client sends the requests with, the tracing wraps the middlewares to time them too */
+function resolveTracedFetch(options: ClientOptions, middlewares: Middleware[]) {
+  const fetch = withMiddleware(middlewares, resolveFetch(options));
+  return options.tracer ? withTracing(options.tracer, fetch) : fetch;
+}
+
+function contentLength(headers: Headers): number | null {
+  const length = headers.get("content-length");
+  return length ? Number(length) : null;
+}
+
+function downloadBody(
+  response: FetchResponse<ReadableStream<Uint8Array>>,
+): ReadableStream<Uint8Array> {
+  if (!response._data) {
+    throw new EmptyDownloadError(response.status, response.url);
+  }
+  return response._data;
+}
+
+const pendingSignerStatuses: SignerInner["status"][] = [
+  "notified",
+  "verified",
+  "consent_given",
+];
+
 //TODO Client and hookable Client are separate classes for typesafety and autoimplementation of hooks
 
 //TODO add hooks to extend functionality (e.g. hooks, prepare data before sending it if needed etc)
@@ -82,6 +232,20 @@ function riseError(...args: Parameters<ErrorConstructor>): never {
  */
 export class BaseClient {
   readonly fetch: $Fetch;
+  /** Scheduler that queues the requests, only set if the scheduler option was passed */
+  readonly scheduler?: RequestScheduler;
+  /** How payloads failing the client-side validation are handled */
+  readonly validation: ValidationMode;
+  /** Called with the progress of every streamed download, next to the onProgress option of the call */
+  protected downloadProgressListener?: (progress: DownloadProgress) => void;
+  /** Called with the error of every failed request */
+  protected errorListener?: (error?: Error) => void;
+  /** Called before every retry, after the onRetry option */
+  protected retryListener?: (info: RetryInfo) => void | Promise<void>;
+  /** Called with the issues of every invalid payload in warn mode, after the onValidationWarning option */
+  protected validationWarningListener?: (issues: ValidationIssue[]) => void;
+  private readonly onValidationWarning?: (issues: ValidationIssue[]) => void;
+  private readonly middlewares: Middleware[] = [];
 
   /**
    * Create a new YouSign adapter instance
@@ -92,18 +256,79 @@ export class BaseClient {
       throw new Error("YouSign API key is required and not provided");
     }
 
-    const baseURL =
-      options.environment === "sandbox"
-        ? "https://api-sandbox.yousign.app/v3"
-        : options.environment === "production"
-          ? "https://api.yousign.app/v3"
-          : riseError(`Invalid environment: ${options.environment}`);
-
-    this.fetch = $fetch.create({
-      baseURL,
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-      },
+    const baseURL = resolveBaseURL(options);
+
+    this.validation = options.validation ?? "warn";
+    this.onValidationWarning = options.onValidationWarning;
+    const fetch = withApiErrors(
+      $fetch.create(
+        {
+          baseURL,
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+          },
+          ...(options.retry && { retry: 0 }),
+          onResponseError: (context) => {
+            this.errorListener?.(context.error);
+          },
+          onRequestError: (context) => {
+            this.errorListener?.(context.error);
+          },
+        },
+        { fetch: resolveTracedFetch(options, this.middlewares) },
+      ),
+    );
+    if (options.scheduler) {
+      this.scheduler =
+        options.scheduler instanceof RequestScheduler
+          ? options.scheduler
+          : new RequestScheduler(options.scheduler);
+    }
+    const scheduled = this.scheduler
+      ? withScheduler(fetch, this.scheduler)
+      : fetch;
+    this.fetch = options.retry
+      ? withRetry(scheduled, {
+          ...options.retry,
+          onRetry: async (info) => {
+            await options.retry?.onRetry?.(info);
+            await this.retryListener?.(info);
+          },
+        })
+      : scheduled;
+    if (options.tracer) {
+      traceMethods(this, options.tracer);
+    }
+  }
+
+  /**
+   * Adds a middleware that wraps every HTTP request, e.g. to set headers or log the payloads.
+   * Middlewares run in the order they were added, each retry attempt goes through them again
+   * @param middleware
+   * @returns the client, to chain the calls
+   *
+   * @example
+   * ```ts
+   * yousign.use(async (ctx, next) => {
+   *   ctx.request.headers.set("X-Request-Id", crypto.randomUUID());
+   *   const response = await next();
+   *   console.log(ctx.request.method, ctx.request.url, response.status);
+   *   return response;
+   * });
+   * ```
+   */
+  @NoHook
+  use(middleware: Middleware): this {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
+  /** Applies the validation mode to the issues found in a payload */
+  @NoHook
+  protected validate(issues: ValidationIssue[]): void {
+    enforceValidation(this.validation, issues, (found) => {
+      this.onValidationWarning?.(found);
+      this.validationWarningListener?.(found);
     });
   }
 
@@ -117,6 +342,7 @@ export class BaseClient {
   async createSignatureRequest(
     options: CreateSignatureRequestOptions,
   ): Promise<SignatureRequest> {
+    this.validate(validateCreateSignatureRequest(options));
     //TODO expand with all the options
     const response = await this.fetch<SignatureRequest>("/signature_requests", {
       method: "POST",
@@ -125,7 +351,6 @@ export class BaseClient {
     return response;
   }
 
-  //TODO add mulltiple files with 1 function call support
   /**
    * Adds a document to a signature request
    * @param signatureRequestId Signature request id where to add the document
@@ -136,34 +361,9 @@ export class BaseClient {
     signatureRequestId: string,
     options: AddFileOptions,
   ): Promise<AddFileResponse> {
-    let { file, ...rest } = options;
-    if (!(file instanceof File) && !(file instanceof Blob)) {
-      if (typeof file === "string") {
-        const blob = await $fetch(file, {
-          responseType: "blob",
-        });
-
-        const fileName = file.split("/").pop();
-
-        file = new File([blob], fileName);
-
-        console.log("Loaded file: ", file);
-      } else {
-        const content = await $fetch(file.url, {
-          responseType: "arrayBuffer",
-          headers: file.headers,
-        });
-
-        const decoder = new TextDecoder(file.encoding);
-        const body = decoder.decode(content);
-
-        //read the content and decode it using the encoding prop
-        file = new Blob([body], { type: file.mimeType });
-        console.log("Loaded file from base64?: ", file);
-      }
-    }
+    const { file, ...rest } = options;
     const formData = new FormData();
-    formData.append("file", file);
+    formData.append("file", await loadFile(file));
     formData.append("nature", rest.nature);
     rest.insert_after_id &&
       formData.append("insert_after_id", rest.insert_after_id);
@@ -179,83 +379,657 @@ export class BaseClient {
       `/signature_requests/${signatureRequestId}/documents`,
       {
         method: "POST",
-        body: formData,
+        body: formData,
+      },
+    );
+
+    return response;
+  }
+
+  /**
+   * Adds a person that needs to sign the document to a signature request
+   * @param signatureRequestId
+   * @param options signer info, or the id of a saved contact or workspace user
+   * @returns
+   */
+  async addSigner(
+    signatureRequestId: string,
+    options: AddSignerOptions,
+  ): Promise<AddSignerResponse> {
+    this.validate(validateSigner(options));
+    const response = await this.fetch<AddSignerResponse>(
+      `/signature_requests/${signatureRequestId}/signers`,
+      {
+        method: "POST",
+        body: options,
+      },
+    );
+
+    return response;
+  }
+
+  /**
+   * Get a single signer of a signature request
+   * @param signatureRequestId
+   * @param signerId
+   * @returns
+   */
+  async getSigner(
+    signatureRequestId: string,
+    signerId: string,
+  ): Promise<AddSignerResponse> {
+    const response = await this.fetch<AddSignerResponse>(
+      `/signature_requests/${signatureRequestId}/signers/${signerId}`,
+    );
+    return response;
+  }
+
+  /**
+   * Updates a signer of a draft signature request, only the passed settings are changed
+   * @param signatureRequestId
+   * @param signerId
+   * @param options
+   * @returns the updated signer
+   */
+  async updateSigner(
+    signatureRequestId: string,
+    signerId: string,
+    options: UpdateSignerOptions,
+  ): Promise<AddSignerResponse> {
+    this.validate(validateUpdateSigner(options));
+    const response = await this.fetch<AddSignerResponse>(
+      `/signature_requests/${signatureRequestId}/signers/${signerId}`,
+      {
+        method: "PATCH",
+        body: options,
+      },
+    );
+    return response;
+  }
+
+  /**
+   * Removes a signer from a draft signature request
+   * @param signatureRequestId
+   * @param signerId
+   */
+  async deleteSigner(
+    signatureRequestId: string,
+    signerId: string,
+  ): Promise<void> {
+    await this.fetch(
+      `/signature_requests/${signatureRequestId}/signers/${signerId}`,
+      {
+        method: "DELETE",
+      },
+    );
+  }
+
+  /**
+   * Sends a reminder to a single signer of an ongoing signature request
+   * @param signatureRequestId
+   * @param signerId
+   */
+  async remindSigner(
+    signatureRequestId: string,
+    signerId: string,
+  ): Promise<void> {
+    await this.fetch(
+      `/signature_requests/${signatureRequestId}/signers/${signerId}/send_reminder`,
+      {
+        method: "POST",
+      },
+    );
+  }
+
+  /**
+   * Generates a new signature link for the signer, e.g. when the current one expired
+   * @param signatureRequestId
+   * @param signerId
+   * @returns the signer with the new `signature_link` and `signature_link_expiration_date`
+   */
+  async regenerateSignatureLink(
+    signatureRequestId: string,
+    signerId: string,
+  ): Promise<AddSignerResponse> {
+    const response = await this.fetch<AddSignerResponse>(
+      `/signature_requests/${signatureRequestId}/signers/${signerId}/renew_signature_link`,
+      {
+        method: "POST",
+      },
+    );
+    return response;
+  }
+
+  /**
+   * Adds a field to a signer that got created already, the field is placed on the document of its `document_id`
+   * @param signatureRequestId
+   * @param signerId signer that has to fill in the field
+   * @param field
+   * @returns the created field with its id
+   */
+  async addField(
+    signatureRequestId: string,
+    signerId: string,
+    field: FieldInput,
+  ): Promise<SignerFieldInput> {
+    this.validate(validateField(field));
+    const { document_id, ...rest } = field;
+    const response = await this.fetch<SignerFieldInput>(
+      `/signature_requests/${signatureRequestId}/documents/${document_id}/fields`,
+      {
+        method: "POST",
+        body: { ...rest, signer_id: signerId },
+      },
+    );
+    return response;
+  }
+
+  /**
+   * Get all the fields of a signer, across all the documents
+   * @param signatureRequestId
+   * @param signerId
+   * @returns the fields with their ids
+   */
+  async getFields(
+    signatureRequestId: string,
+    signerId: string,
+  ): Promise<SignerFieldInput[]> {
+    const { fields } = await this.getSigner(signatureRequestId, signerId);
+    return fields;
+  }
+
+  /**
+   * Updates a field of a draft signature request, e.g. to move it. Only the passed settings are changed
+   * @param signatureRequestId
+   * @param documentId document the field is placed on
+   * @param fieldId
+   * @param options
+   * @returns the updated field
+   */
+  async updateField(
+    signatureRequestId: string,
+    documentId: string,
+    fieldId: string,
+    options: UpdateFieldOptions,
+  ): Promise<SignerFieldInput> {
+    this.validate(validateField(options));
+    const response = await this.fetch<SignerFieldInput>(
+      `/signature_requests/${signatureRequestId}/documents/${documentId}/fields/${fieldId}`,
+      {
+        method: "PATCH",
+        body: options,
+      },
+    );
+    return response;
+  }
+
+  /**
+   * Removes a field from a draft signature request
+   * @param signatureRequestId
+   * @param documentId document the field is placed on
+   * @param fieldId
+   */
+  async deleteField(
+    signatureRequestId: string,
+    documentId: string,
+    fieldId: string,
+  ): Promise<void> {
+    await this.fetch(
+      `/signature_requests/${signatureRequestId}/documents/${documentId}/fields/${fieldId}`,
+      {
+        method: "DELETE",
+      },
+    );
+  }
+
+  /**
+   * Adds multiple documents to a signature request, one after the other in the given order,
+   * so documents with an `insert_after_id` can reference the ones uploaded before
+   * @param signatureRequestId Signature request id where to add the documents
+   * @param documents document options
+   * @param options stop at the first failure
+   * @returns the outcome of every document, in the same order
+   */
+  async addDocuments(
+    signatureRequestId: string,
+    documents: AddFileOptions[],
+    options: BatchOptions = {},
+  ): Promise<BatchItemResult<AddFileResponse>[]> {
+    return runBatch(
+      documents,
+      (document) => this.addDocument(signatureRequestId, document),
+      { ...options, concurrency: 1 },
+    );
+  }
+
+  /**
+   * Adds multiple signers to a signature request in parallel.
+   * If the signers have to sign in order (`ordered_signers`), set the concurrency to 1
+   * @param signatureRequestId
+   * @param signers signer options
+   * @param options concurrency and whether to stop at the first failure
+   * @returns the outcome of every signer, in the same order
+   * @throws {RangeError} The concurrency is not a positive integer
+   */
+  async addSigners(
+    signatureRequestId: string,
+    signers: AddSignerOptions[],
+    options: ConcurrentBatchOptions = {},
+  ): Promise<BatchItemResult<AddSignerResponse>[]> {
+    return runBatch(
+      signers,
+      (signer) => this.addSigner(signatureRequestId, signer),
+      options,
+    );
+  }
+
+  /**
+   * Adds a person that needs to approve the signature request before the signers get notified
+   * @param signatureRequestId
+   * @param options
+   * @returns
+   */
+  async addApprover(
+    signatureRequestId: string,
+    options: AddApproverOptions,
+  ): Promise<AddApproverResponse> {
+    this.validate(validateApprover(options));
+    const response = await this.fetch<AddApproverResponse>(
+      `/signature_requests/${signatureRequestId}/approvers`,
+      {
+        method: "POST",
+        body: options,
+      },
+    );
+
+    return response;
+  }
+
+  /**
+   * Get all the approvers of a signature request
+   * @param signatureRequestId
+   * @returns
+   */
+  async getApprovers(
+    signatureRequestId: string,
+  ): Promise<AddApproverResponse[]> {
+    const response = await this.fetch<AddApproverResponse[]>(
+      `/signature_requests/${signatureRequestId}/approvers`,
+    );
+    return response;
+  }
+
+  /**
+   * Get a single approver of a signature request
+   * @param signatureRequestId
+   * @param approverId
+   * @returns
+   */
+  async getApprover(
+    signatureRequestId: string,
+    approverId: string,
+  ): Promise<AddApproverResponse> {
+    const response = await this.fetch<AddApproverResponse>(
+      `/signature_requests/${signatureRequestId}/approvers/${approverId}`,
+    );
+    return response;
+  }
+
+  /**
+   * Updates an approver of a draft signature request, only the passed settings are changed
+   * @param signatureRequestId
+   * @param approverId
+   * @param options
+   * @returns the updated approver
+   */
+  async updateApprover(
+    signatureRequestId: string,
+    approverId: string,
+    options: UpdateApproverOptions,
+  ): Promise<AddApproverResponse> {
+    this.validate(validateApprover(options));
+    const response = await this.fetch<AddApproverResponse>(
+      `/signature_requests/${signatureRequestId}/approvers/${approverId}`,
+      {
+        method: "PATCH",
+        body: options,
+      },
+    );
+    return response;
+  }
+
+  /**
+   * Removes an approver from a draft signature request
+   * @param signatureRequestId
+   * @param approverId
+   */
+  async deleteApprover(
+    signatureRequestId: string,
+    approverId: string,
+  ): Promise<void> {
+    await this.fetch(
+      `/signature_requests/${signatureRequestId}/approvers/${approverId}`,
+      {
+        method: "DELETE",
+      },
+    );
+  }
+
+  /**
+   * Adds followers to a signature request, they get notified about its progress without having to sign
+   * @param signatureRequestId
+   * @param followers
+   * @returns the added followers
+   */
+  async addFollowers(
+    signatureRequestId: string,
+    followers: FollowerInfo[],
+  ): Promise<Follower[]> {
+    this.validate(validateFollowers(followers));
+    const response = await this.fetch<Follower[]>(
+      `/signature_requests/${signatureRequestId}/followers`,
+      {
+        method: "POST",
+        body: followers,
+      },
+    );
+    return response;
+  }
+
+  /**
+   * Get all the followers of a signature request
+   * @param signatureRequestId
+   * @returns
+   */
+  async getFollowers(signatureRequestId: string): Promise<Follower[]> {
+    const response = await this.fetch<Follower[]>(
+      `/signature_requests/${signatureRequestId}/followers`,
+    );
+    return response;
+  }
+
+  /**
+   * Performs the signature request
+   * @param signatureRequestId
+   * @returns
+   * @throws {ConflictError} The signature request isn't a draft or misses documents/signers
+   */
+  async activateSignatureRequest(
+    signatureRequestId: string,
+  ): Promise<SignatureRequestActivateResponse> {
+    const response = await this.fetch<SignatureRequestActivateResponse>(
+      `/signature_requests/${signatureRequestId}/activate`,
+      {
+        method: "POST",
+      },
+    );
+    return response;
+  }
+
+  /**
+   * Get all the signature requests that match the query
+   * @param query
+   * @param options abort signal
+   * @returns
+   */
+  async getRequests(
+    query: Partial<SignatureRequestQuery> = {},
+    options: RequestOptions = {},
+  ): Promise<SignatureRequestQueryResult> {
+    this.validate(validateQuery(query));
+    const response = await this.fetch<SignatureRequestQueryResult>(
+      "/signature_requests",
+      {
+        query,
+        signal: options.signal,
+      },
+    );
+    return response;
+  }
+
+  /**
+   * Iterates over all the signature requests that match the query, following the cursors on its own
+   * @param query query to filter the requests, `limit` sets the page size
+   * @param options item limit and abort signal
+   *
+   * @example
+   * ```ts
+   * for await (const request of client.iterateRequests({ status: "ongoing" })) {
+   *   console.log(request.id);
+   * }
+   * ```
+   */
+  async *iterateRequests(
+    query: Partial<Omit<SignatureRequestQuery, "after">> = {},
+    options: PaginationOptions = {},
+  ): AsyncGenerator<SignatureRequest, void, undefined> {
+    yield* paginate(
+      (after, signal) => this.getRequests({ ...query, after }, { signal }),
+      options,
+    );
+  }
+
+  /**
+   * Iterates over the pages of signature requests that match the query, following the cursors on its own
+   * @param query query to filter the requests, `limit` sets the page size
+   * @param options item limit and abort signal
+   */
+  async *iterateRequestPages(
+    query: Partial<Omit<SignatureRequestQuery, "after">> = {},
+    options: PaginationOptions = {},
+  ): AsyncGenerator<SignatureRequest[], void, undefined> {
+    yield* paginatePages(
+      (after, signal) => this.getRequests({ ...query, after }, { signal }),
+      options,
+    );
+  }
+
+  /**
+   * Get a single signature request
+   * @param signatureRequestId
+   * @returns
+   */
+  async getSignatureRequest(
+    signatureRequestId: string,
+  ): Promise<SignatureRequest> {
+    const response = await this.fetch<SignatureRequest>(
+      `/signature_requests/${signatureRequestId}`,
+    );
+    return response;
+  }
+
+  /**
+   * Updates a signature request, only the passed settings are changed.
+   * Once activated only the name, expiration date and reminder settings can be changed
+   * @param signatureRequestId
+   * @param options
+   * @returns the updated signature request
+   */
+  async updateSignatureRequest(
+    signatureRequestId: string,
+    options: UpdateSignatureRequestOptions,
+  ): Promise<SignatureRequest> {
+    this.validate(validateUpdateSignatureRequest(options));
+    const response = await this.fetch<SignatureRequest>(
+      `/signature_requests/${signatureRequestId}`,
+      {
+        method: "PATCH",
+        body: options,
+      },
+    );
+    return response;
+  }
+
+  /**
+   * Cancels an ongoing signature request, the signers get notified with the custom note
+   * @param signatureRequestId
+   * @param options reason and custom note
+   * @returns the canceled signature request
+   */
+  async cancelSignatureRequest(
+    signatureRequestId: string,
+    options: CancelSignatureRequestOptions,
+  ): Promise<SignatureRequest> {
+    this.validate(validateCancelSignatureRequest(options));
+    const response = await this.fetch<SignatureRequest>(
+      `/signature_requests/${signatureRequestId}/cancel`,
+      {
+        method: "POST",
+        body: options,
       },
     );
-
     return response;
   }
 
-  //TODO add multiple signers with 1 function call support
   /**
-   * Adds a person that needs to sign the document to a signature request
+   * Deletes a signature request that is a draft, canceled, declined or expired
    * @param signatureRequestId
-   * @param options
-   * @returns
+   * @param permanentDelete If true the request is deleted permanently and can't be restored from the app
    */
-  async addSigner(
+  async deleteSignatureRequest(
     signatureRequestId: string,
-    options: AddSignerOptions,
-  ): Promise<AddSignerResponse> {
-    const response = await this.fetch<AddSignerResponse>(
-      `/signature_requests/${signatureRequestId}/signers`,
+    permanentDelete: boolean = false,
+  ): Promise<void> {
+    await this.fetch(`/signature_requests/${signatureRequestId}`, {
+      method: "DELETE",
+      query: { permanent_delete: permanentDelete },
+    });
+  }
+
+  /**
+   * Reactivates an expired signature request with a new expiration date
+   * @param signatureRequestId
+   * @param options new expiration date
+   * @returns the reactivated signature request
+   */
+  async reactivateSignatureRequest(
+    signatureRequestId: string,
+    options: ReactivateSignatureRequestOptions,
+  ): Promise<SignatureRequest> {
+    const response = await this.fetch<SignatureRequest>(
+      `/signature_requests/${signatureRequestId}/reactivate`,
       {
         method: "POST",
         body: options,
       },
     );
-
     return response;
   }
 
   /**
-   * Performs the signature request
+   * Sends a reminder to every signer of the ongoing signature request that didn't sign yet
+   * @param signatureRequestId
+   * @returns the ids of the reminded signers
+   */
+  async remindSignatureRequest(signatureRequestId: string): Promise<string[]> {
+    const { signers } = await this.getSignatureRequest(signatureRequestId);
+    const pending = signers
+      .filter((signer) => pendingSignerStatuses.includes(signer.status))
+      .map((signer) => signer.id);
+
+    for (const signerId of pending) {
+      await this.remindSigner(signatureRequestId, signerId);
+    }
+    return pending;
+  }
+
+  /**
+   * Gets the document from the request
    * @param signatureRequestId
+   * @param documentId
    * @returns
    */
-  async activateSignatureRequest(
+  async getDocument(
     signatureRequestId: string,
-  ): Promise<SignatureRequestActivateResponse> {
-    const response = await this.fetch<SignatureRequestActivateResponse>(
-      `/signature_requests/${signatureRequestId}/activate`,
+    documentId: string,
+  ): Promise<Blob> {
+    const response = await this.fetch(
+      `/signature_requests/${signatureRequestId}/documents/${documentId}/download`,
+      {
+        responseType: "blob",
+      },
+    );
+    return response;
+  }
+
+  /**
+   * Replaces the file of a document of a draft signature request, the fields placed on it are kept
+   * @param signatureRequestId
+   * @param documentId
+   * @param file new file, or url to load it from
+   * @returns the document with the new file
+   */
+  async replaceDocument(
+    signatureRequestId: string,
+    documentId: string,
+    file: AddFileOptions["file"],
+  ): Promise<AddFileResponse> {
+    const formData = new FormData();
+    formData.append("file", await loadFile(file));
+
+    const response = await this.fetch<AddFileResponse>(
+      `/signature_requests/${signatureRequestId}/documents/${documentId}/replace`,
       {
         method: "POST",
-        ignoreResponseError: true,
+        body: formData,
       },
     );
     return response;
   }
 
   /**
-   * Get all the signature requests that match the query
-   * @param query
-   * @returns
+   * Updates a document of a draft signature request, e.g. moves it after another document with `insert_after_id`
+   * @param signatureRequestId
+   * @param documentId
+   * @param options
+   * @returns the updated document
    */
-  async getRequests(
-    query: Partial<SignatureRequestQuery> = {},
-  ): Promise<SignatureRequestQueryResult> {
-    const response = await this.fetch<SignatureRequestQueryResult>(
-      "/signature_requests",
+  async updateDocument(
+    signatureRequestId: string,
+    documentId: string,
+    options: UpdateDocumentOptions,
+  ): Promise<DocumentInfo> {
+    const response = await this.fetch<DocumentInfo>(
+      `/signature_requests/${signatureRequestId}/documents/${documentId}`,
       {
-        query,
+        method: "PATCH",
+        body: options,
       },
     );
     return response;
   }
 
   /**
-   * Gets the document from the request
+   * Removes a document from a draft signature request, the fields placed on it are removed too
    * @param signatureRequestId
    * @param documentId
-   * @returns
    */
-  async getDocument(
+  async deleteDocument(
     signatureRequestId: string,
     documentId: string,
+  ): Promise<void> {
+    await this.fetch(
+      `/signature_requests/${signatureRequestId}/documents/${documentId}`,
+      {
+        method: "DELETE",
+      },
+    );
+  }
+
+  /**
+   * Downloads all the documents of the signature request in one call
+   * @param signatureRequestId
+   * @param options version of the documents and whether to get them as zip archive
+   * @returns a PDF if there is a single document and no archive was requested, a zip archive otherwise
+   */
+  async downloadDocuments(
+    signatureRequestId: string,
+    options: DownloadDocumentsOptions = {},
   ): Promise<Blob> {
     const response = await this.fetch(
-      `/signature_requests/${signatureRequestId}/documents/${documentId}/download`,
+      `/signature_requests/${signatureRequestId}/documents/download`,
       {
+        query: options,
         responseType: "blob",
       },
     );
@@ -357,6 +1131,367 @@ export class BaseClient {
       }
     }
   }
+
+  /**
+   * Streams the document instead of loading it into memory, useful for large files
+   * @param signatureRequestId
+   * @param documentId
+   * @param options progress callback and SHA-256 verification, verified against the DocumentInfo by default
+   * @returns the body of the download, it errors with an IntegrityError if the hash doesn't match
+   * @throws {EmptyDownloadError} The API answered without a body
+   */
+  async streamDocument(
+    signatureRequestId: string,
+    documentId: string,
+    options: StreamOptions = {},
+  ): Promise<ReadableStream<Uint8Array>> {
+    const { verify = true, onProgress } = options;
+    const expectedSha256 =
+      typeof verify === "string"
+        ? verify
+        : verify
+          ? (await this.getDocumentData(signatureRequestId, documentId)).sha256
+          : undefined;
+
+    const response = await this.fetch.raw(
+      `/signature_requests/${signatureRequestId}/documents/${documentId}/download`,
+      { responseType: "stream" },
+    );
+
+    return trackStream(
+      downloadBody(response),
+      {
+        resource: "document",
+        signatureRequestId,
+        id: documentId,
+        total: contentLength(response.headers),
+      },
+      (progress) => {
+        onProgress?.(progress);
+        this.downloadProgressListener?.(progress);
+      },
+      expectedSha256,
+    );
+  }
+
+  /**
+   * Streams the certificate (audit trail) instead of loading it into memory, useful for large merged audit trails
+   * @param signatureRequestId
+   * @param signerId signer to get the certificate of, if not set the certificates of all signers are merged
+   * @param options progress callback
+   * @returns the body of the download
+   * @throws {EmptyDownloadError} The API answered without a body
+   */
+  async streamCertificate(
+    signatureRequestId: string,
+    signerId?: string,
+    options: Omit<StreamOptions, "verify"> = {},
+  ): Promise<ReadableStream<Uint8Array>> {
+    const response = await this.fetch.raw(
+      signerId
+        ? `/signature_requests/${signatureRequestId}/signers/${signerId}/audit_trails/download`
+        : `/signature_requests/${signatureRequestId}/audit_trails/download`,
+      { responseType: "stream" },
+    );
+
+    return trackStream(
+      downloadBody(response),
+      {
+        resource: "certificate",
+        signatureRequestId,
+        id: signerId ?? null,
+        total: contentLength(response.headers),
+      },
+      (progress) => {
+        options.onProgress?.(progress);
+        this.downloadProgressListener?.(progress);
+      },
+    );
+  }
+
+  /**
+   * Streams the document directly into a WritableStream, a Node.js writable or a file
+   * @param signatureRequestId
+   * @param documentId
+   * @param destination stream or file path to write to
+   * @param options progress callback and SHA-256 verification
+   * @throws {IntegrityError} The hash doesn't match, the destination already received the data
+   */
+  async downloadDocumentTo(
+    signatureRequestId: string,
+    documentId: string,
+    destination: DownloadDestination,
+    options: StreamOptions = {},
+  ): Promise<void> {
+    const stream = await this.streamDocument(
+      signatureRequestId,
+      documentId,
+      options,
+    );
+    await writeStream(stream, destination);
+  }
+
+  /**
+   * Streams the certificate directly into a WritableStream, a Node.js writable or a file
+   * @param signatureRequestId
+   * @param signerId signer to get the certificate of, if not set the certificates of all signers are merged
+   * @param destination stream or file path to write to
+   * @param options progress callback
+   */
+  async downloadCertificateTo(
+    signatureRequestId: string,
+    signerId: string | undefined,
+    destination: DownloadDestination,
+    options: Omit<StreamOptions, "verify"> = {},
+  ): Promise<void> {
+    const stream = await this.streamCertificate(
+      signatureRequestId,
+      signerId,
+      options,
+    );
+    await writeStream(stream, destination);
+  }
+
+  /**
+   * Get the templates that match the query
+   * @param query
+   * @param options abort signal
+   * @returns
+   */
+  async getTemplates(
+    query: Partial<TemplateQuery> = {},
+    options: RequestOptions = {},
+  ): Promise<TemplateQueryResult> {
+    this.validate(validateQuery(query));
+    const response = await this.fetch<TemplateQueryResult>("/templates", {
+      query,
+      signal: options.signal,
+    });
+    return response;
+  }
+
+  /**
+   * Iterates over all the templates that match the query, following the cursors on its own
+   * @param query query to filter the templates, `limit` sets the page size
+   * @param options item limit and abort signal
+   */
+  async *iterateTemplates(
+    query: Partial<Omit<TemplateQuery, "after">> = {},
+    options: PaginationOptions = {},
+  ): AsyncGenerator<Template, void, undefined> {
+    yield* paginate(
+      (after, signal) => this.getTemplates({ ...query, after }, { signal }),
+      options,
+    );
+  }
+
+  /**
+   * Get a single template with its placeholders
+   * @param templateId
+   * @returns
+   */
+  async getTemplate(templateId: string): Promise<Template> {
+    const response = await this.fetch<Template>(`/templates/${templateId}`);
+    return response;
+  }
+
+  /**
+   * Creates a signature request from a template, filling in its signer placeholders and read only text fields
+   * @param templateId
+   * @param options settings of the request and the values by placeholder label
+   * @returns the created draft signature request
+   * @throws {TemplatePlaceholderError} A placeholder of the template has no value in the options
+   */
+  async createSignatureRequestFromTemplate(
+    templateId: string,
+    options: CreateFromTemplateOptions,
+  ): Promise<SignatureRequest> {
+    const { signers, read_only_text_fields = {}, ...rest } = options;
+    const template = await this.getTemplate(templateId);
+
+    const missing = [
+      ...template.signers
+        .map(({ label }) => label)
+        .filter((label) => !signers[label]),
+      ...template.read_only_text_fields
+        .map(({ label }) => label)
+        .filter((label) => read_only_text_fields[label] === undefined),
+    ];
+    if (missing.length) {
+      throw new TemplatePlaceholderError(templateId, missing);
+    }
+
+    const response = await this.fetch<SignatureRequest>("/signature_requests", {
+      method: "POST",
+      body: {
+        ...rest,
+        template_id: templateId,
+        template_placeholders: {
+          signers: template.signers.map(({ label }) => {
+            const signer = signers[label];
+            return "info" in signer
+              ? { label, ...signer }
+              : { label, info: signer };
+          }),
+          read_only_text_fields: template.read_only_text_fields.map(
+            ({ label }) => ({ label, text: read_only_text_fields[label] }),
+          ),
+        },
+      },
+    });
+    return response;
+  }
+
+  /**
+   * Saves a contact that can be reused as signer with its id
+   * @param options
+   * @returns
+   */
+  async createContact(options: CreateContactOptions): Promise<Contact> {
+    this.validate(validateContact(options));
+    const response = await this.fetch<Contact>("/contacts", {
+      method: "POST",
+      body: options,
+    });
+    return response;
+  }
+
+  /**
+   * Get the contacts that match the query
+   * @param query
+   * @param options abort signal
+   * @returns
+   */
+  async getContacts(
+    query: Partial<ContactQuery> = {},
+    options: RequestOptions = {},
+  ): Promise<ContactQueryResult> {
+    this.validate(validateQuery(query));
+    const response = await this.fetch<ContactQueryResult>("/contacts", {
+      query,
+      signal: options.signal,
+    });
+    return response;
+  }
+
+  /**
+   * Iterates over all the contacts that match the query, following the cursors on its own
+   * @param query query to filter the contacts, `limit` sets the page size
+   * @param options item limit and abort signal
+   */
+  async *iterateContacts(
+    query: Partial<Omit<ContactQuery, "after">> = {},
+    options: PaginationOptions = {},
+  ): AsyncGenerator<Contact, void, undefined> {
+    yield* paginate(
+      (after, signal) => this.getContacts({ ...query, after }, { signal }),
+      options,
+    );
+  }
+
+  /**
+   * Get a single contact
+   * @param contactId
+   * @returns
+   */
+  async getContact(contactId: string): Promise<Contact> {
+    const response = await this.fetch<Contact>(`/contacts/${contactId}`);
+    return response;
+  }
+
+  /**
+   * Updates a contact, only the passed settings are changed
+   * @param contactId
+   * @param options
+   * @returns the updated contact
+   */
+  async updateContact(
+    contactId: string,
+    options: UpdateContactOptions,
+  ): Promise<Contact> {
+    this.validate(validateContact(options));
+    const response = await this.fetch<Contact>(`/contacts/${contactId}`, {
+      method: "PATCH",
+      body: options,
+    });
+    return response;
+  }
+
+  /**
+   * Deletes a contact, signers already created from it are not affected
+   * @param contactId
+   */
+  async deleteContact(contactId: string): Promise<void> {
+    await this.fetch(`/contacts/${contactId}`, {
+      method: "DELETE",
+    });
+  }
+
+  /**
+   * Subscribes an endpoint to the webhook events
+   * @param options
+   * @returns the subscription, including the secret to verify the events with
+   */
+  async createWebhook(
+    options: CreateWebhookOptions,
+  ): Promise<WebhookSubscription> {
+    const response = await this.fetch<WebhookSubscription>("/webhooks", {
+      method: "POST",
+      body: options,
+    });
+    return response;
+  }
+
+  /**
+   * Get all the webhook subscriptions of the organization
+   * @returns
+   */
+  async getWebhooks(): Promise<WebhookSubscription[]> {
+    const response = await this.fetch<WebhookSubscription[]>("/webhooks");
+    return response;
+  }
+
+  /**
+   * Get a single webhook subscription
+   * @param webhookId
+   * @returns
+   */
+  async getWebhook(webhookId: string): Promise<WebhookSubscription> {
+    const response = await this.fetch<WebhookSubscription>(
+      `/webhooks/${webhookId}`,
+    );
+    return response;
+  }
+
+  /**
+   * Updates the settings of a webhook subscription, only the passed settings are changed
+   * @param webhookId
+   * @param options
+   * @returns
+   */
+  async updateWebhook(
+    webhookId: string,
+    options: UpdateWebhookOptions,
+  ): Promise<WebhookSubscription> {
+    const response = await this.fetch<WebhookSubscription>(
+      `/webhooks/${webhookId}`,
+      {
+        method: "PATCH",
+        body: options,
+      },
+    );
+    return response;
+  }
+
+  /**
+   * Deletes a webhook subscription, the endpoint won't receive any further events
+   * @param webhookId
+   */
+  async deleteWebhook(webhookId: string): Promise<void> {
+    await this.fetch(`/webhooks/${webhookId}`, {
+      method: "DELETE",
+    });
+  }
 }
 
 /**
@@ -405,7 +1540,7 @@ export class BaseClient {
  */
 @GenHooks
 export class YouSignClient extends BaseClient {
-  readonly hooks: Hookable<Hooks<BaseClient>, HookKeys<Hooks<BaseClient>>> =
+  readonly hooks: ClientHookable<Hooks<BaseClient>> =
     createHooks<Hooks<BaseClient>>();
 
   constructor(
@@ -413,24 +1548,14 @@ export class YouSignClient extends BaseClient {
     options: ClientOptions = { environment: "sandbox" },
   ) {
     super(token, options);
-    const baseURL =
-      options.environment === "sandbox"
-        ? "https://api-sandbox.yousign.app/v3"
-        : options.environment === "production"
-          ? "https://api.yousign.app/v3"
-          : riseError(`Invalid environment: ${options.environment}`);
-    //@ts-ignore
-    this.fetch = $fetch.create({
-      baseURL,
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-      onResponseError: (context) => {
-        this.hooks.callHook("onError", context.error);
-      },
-      onRequestError: (context) => {
-        this.hooks.callHook("onError", context.error);
-      },
-    });
+    this.errorListener = (error) => this.hooks.callHook("onError", error);
+    this.retryListener = (info) => this.hooks.callHook("onRetry", info);
+    this.downloadProgressListener = (progress) =>
+      this.hooks.callHook("onDownloadProgress", progress);
+    this.validationWarningListener = (issues) =>
+      this.hooks.callHook("onValidationWarning", issues);
+    this.scheduler?.subscribe((metrics) =>
+      this.hooks.callHook("onQueueChange", metrics),
+    );
   }
 }
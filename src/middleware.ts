@@ -0,0 +1,43 @@
+import type { Middleware, MiddlewareContext } from "./types";
+
+/**
+ * Runs the requests through the middlewares before they reach the fetch.
+ * Each middleware gets the context and `next`, which runs the following middlewares and resolves with the response.
+ * `next` can be called again, e.g. to resend the request after rotating the API key
+ * @param middlewares middlewares in the order they run, the list is read on every request so later additions apply
+ * @param fetch fetch the request is sent with once every middleware called next
+ *
+ * @example
+ * ```ts
+ * const fetch = withMiddleware([
+ *   async (ctx, next) => {
+ *     ctx.request.headers.set("X-Request-Id", crypto.randomUUID());
+ *     return next();
+ *   },
+ * ]);
+ * ```
+ */
+export function withMiddleware(
+  middlewares: Middleware[],
+  fetch: typeof globalThis.fetch = globalThis.fetch,
+): typeof globalThis.fetch {
+  return (input, init) => {
+    if (!middlewares.length) {
+      return fetch(input, init);
+    }
+
+    const ctx: MiddlewareContext = {
+      request: new Request(input, init),
+      state: {},
+    };
+    const dispatch = (index: number): Promise<Response> => {
+      const middleware = middlewares[index];
+      if (!middleware) {
+        //the body of a request can only be read once, next may be called again
+        return fetch(ctx.request.clone());
+      }
+      return middleware(ctx, () => dispatch(index + 1));
+    };
+    return dispatch(0);
+  };
+}
@@ -0,0 +1,1686 @@
+import { scanAnchors } from "./anchors";
+import { Sha256 } from "./sha256";
+import type {
+  AddApproverResponse,
+  AddSignerResponse,
+  ApiProblem,
+  ApiViolation,
+  CertificateData,
+  Contact,
+  DocumentInfo,
+  Follower,
+  Nullable,
+  SignatureRequest,
+  SignatureRequestActivateResponse,
+  SignerFieldInput,
+  SignerInfo,
+  Template,
+  WebhookEvent,
+  WebhookEventName,
+  WebhookSubscription,
+} from "./types";
+import { computeWebhookSignature, SIGNATURE_HEADER } from "./webhooks";
+
+/** Options of the MockYouSignServer */
+export type MockServerOptions = {
+  /**
+   * Base URL the client gets pointed at, nothing listens on it
+   * @default "https://mock.yousign.local/v3"
+   */
+  baseURL?: string;
+  /** If set, requests with another API key are answered with 401 */
+  apiKey?: string;
+  /**
+   * Deliver the events to the webhook subscriptions created through the API
+   * @default false
+   */
+  webhooks?: boolean;
+  /** Fetch used to deliver the webhooks, e.g. `(request) => receiver.handle(request)` */
+  webhookFetch?: (request: Request) => Promise<Response>;
+};
+
+type StoredDocument = {
+  info: DocumentInfo;
+  data: Uint8Array;
+};
+
+type StoredRequest = {
+  request: SignatureRequest;
+  documents: StoredDocument[];
+  signers: AddSignerResponse[];
+  approvers: AddApproverResponse[];
+  followers: Follower[];
+  /** Certificates of the signers that signed, by signer id */
+  certificates: Map<string, CertificateData>;
+};
+
+type RouteContext = {
+  request: Request;
+  params: Record<string, string>;
+  query: URLSearchParams;
+};
+
+type Route = {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  status: number;
+  handler: (context: RouteContext) => unknown;
+};
+
+/** Attempt to deliver an event to a webhook subscription */
+export type MockWebhookDelivery = {
+  event_id: string;
+  event_name: WebhookEventName;
+  subscription_id: string;
+  endpoint: string;
+  /** Status the endpoint answered with, null if the request failed */
+  status: Nullable<number>;
+  /** Why the delivery failed, null if the endpoint answered with a 2XX status */
+  error: Nullable<string>;
+};
+
+/** Answered as problem response by the mock */
+class MockProblem extends Error {
+  constructor(
+    readonly status: number,
+    detail: string,
+    readonly violations?: ApiViolation[],
+  ) {
+    super(detail);
+    this.name = "MockProblem";
+  }
+}
+
+const encoder = new TextEncoder();
+
+const now = () => new Date().toISOString();
+
+const inMonths = (months: number) => {
+  const date = new Date();
+  date.setMonth(date.getMonth() + months);
+  return date.toISOString().slice(0, 10);
+};
+
+const sha256 = (data: Uint8Array) => new Sha256().update(data).digest();
+
+const CRC_TABLE = Uint32Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Zip archive without compression */
+function zip(files: { name: string; data: Uint8Array }[]): Uint8Array {
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const { name, data } of files) {
+    const fileName = encoder.encode(name);
+    const crc = crc32(data);
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(12, 0x21, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, data.length, true);
+    header.setUint32(22, data.length, true);
+    header.setUint16(26, fileName.length, true);
+    parts.push(new Uint8Array(header.buffer), fileName, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(14, 0x21, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, fileName.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), fileName);
+
+    offset += 30 + fileName.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return concat([...parts, ...central, new Uint8Array(end.buffer)]);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/** Single page PDF with a line of text per entry */
+function textPdf(lines: string[]): Uint8Array {
+  const escape = (text: string) => text.replace(/[\\()]/g, "\\$&");
+  const content = `BT /F1 12 Tf 72 770 Td 16 TL ${lines
+    .map((line) => `(${escape(line)}) '`)
+    .join(" ")} ET`;
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return encoder.encode(pdf);
+}
+
+/** Counts the pages of a PDF, null if the file is not a PDF */
+function countPages(data: Uint8Array): Nullable<number> {
+  const text = new TextDecoder("latin1").decode(data);
+  if (!text.startsWith("%PDF")) {
+    return null;
+  }
+  return text.match(/\/Type\s*\/Page\b(?!s)/g)?.length ?? 0;
+}
+
+function paginate<T extends { id: string }>(
+  items: T[],
+  query: URLSearchParams,
+) {
+  const limit = Number(query.get("limit") ?? 100);
+  const after = query.get("after");
+  const start = after ? items.findIndex(({ id }) => id === after) + 1 : 0;
+  const data = items.slice(start, start + limit);
+  const hasMore = start + limit < items.length;
+  return {
+    meta: { next_cursor: hasMore ? data[data.length - 1].id : null },
+    data,
+  };
+}
+
+async function jsonBody(request: Request): Promise<Record<string, any>> {
+  try {
+    return await request.json();
+  } catch {
+    throw new MockProblem(400, "The body must be valid JSON");
+  }
+}
+
+function required(body: Record<string, any>, ...names: string[]) {
+  const violations = names
+    .filter((name) => body[name] === undefined || body[name] === null)
+    .map((name) => ({ name, reason: "This value should not be null." }));
+  if (violations.length) {
+    throw new MockProblem(400, "Invalid body", violations);
+  }
+}
+
+/**
+ * In-memory stand-in for the YouSign API, meant for tests that can't reach the sandbox.
+ * It keeps the state of the signature requests (draft → ongoing → done), stores the uploaded
+ * documents with their SHA-256 and lets the tests act as signers and approvers.
+ * Point a client at it with {@link MockYouSignServer.clientOptions}
+ *
+ * @example
+ * ```ts
+ * const server = new MockYouSignServer();
+ * const yousign = new YouSignClient("test", server.clientOptions);
+ *
+ * const request = await yousign.createSignatureRequest({ name: "Contract", delivery_mode: "none" });
+ * //...add a document and a signer, activate the request
+ * await server.sign(request.id, signer.id);
+ * (await yousign.getSignatureRequest(request.id)).status; // "done"
+ * ```
+ */
+export class MockYouSignServer {
+  readonly baseURL: string;
+  /** Every event that happened, whether it got delivered to a webhook or not */
+  readonly events: WebhookEvent[] = [];
+  /** Every webhook delivery, failed ones included. Like YouSign, a failed delivery never fails the API call */
+  readonly deliveries: MockWebhookDelivery[] = [];
+
+  private readonly routes: Route[] = [];
+  private readonly requests = new Map<string, StoredRequest>();
+  private readonly templates = new Map<string, Template>();
+  private readonly templateDocuments = new Map<string, Uint8Array>();
+  private readonly contacts = new Map<string, Contact>();
+  private readonly webhooks = new Map<string, WebhookSubscription>();
+
+  constructor(private readonly options: MockServerOptions = {}) {
+    this.baseURL = (options.baseURL ?? "https://mock.yousign.local/v3").replace(
+      /\/$/,
+      "",
+    );
+    this.registerRoutes();
+  }
+
+  /** Options that point a YouSignClient or BaseClient at this server */
+  get clientOptions() {
+    return {
+      environment: "sandbox" as const,
+      baseURL: this.baseURL,
+      fetch: this.fetch,
+    };
+  }
+
+  /** Fetch compatible handler, answers the requests made to the base URL and rejects like fetch once the signal aborts */
+  readonly fetch = (
+    input: RequestInfo | URL,
+    init?: RequestInit,
+  ): Promise<Response> => {
+    const request = new Request(input, init);
+    const { signal } = request;
+    if (signal.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    return new Promise((resolve, reject) => {
+      const abort = () => reject(signal.reason);
+      signal.addEventListener("abort", abort, { once: true });
+      this.handle(request)
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener("abort", abort));
+    });
+  };
+
+  /**
+   * Answers a request like the YouSign API would
+   * @param request request to a URL starting with the base URL
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const base = new URL(this.baseURL);
+    if (url.origin !== base.origin || !url.pathname.startsWith(base.pathname)) {
+      return this.problem(new MockProblem(404, `No route for ${request.url}`));
+    }
+
+    const authorization = request.headers.get("authorization");
+    if (
+      !authorization?.startsWith("Bearer ") ||
+      (this.options.apiKey && authorization !== `Bearer ${this.options.apiKey}`)
+    ) {
+      return this.problem(new MockProblem(401, "Invalid API key"));
+    }
+
+    const path = url.pathname.slice(base.pathname.length) || "/";
+    const candidates = this.routes.filter(({ pattern }) => pattern.test(path));
+    const route = candidates.find(({ method }) => method === request.method);
+    if (!route) {
+      return this.problem(
+        new MockProblem(
+          candidates.length ? 405 : 404,
+          `No route for ${request.method} ${path}`,
+        ),
+      );
+    }
+
+    const match = route.pattern.exec(path)!;
+    const params = Object.fromEntries(
+      route.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]),
+    );
+
+    try {
+      const result = await route.handler({
+        request,
+        params,
+        query: url.searchParams,
+      });
+      if (result === undefined) {
+        return new Response(null, { status: 204 });
+      }
+      if (result instanceof Blob) {
+        return new Response(result, {
+          status: route.status,
+          headers: {
+            "content-type": result.type,
+            "content-length": String(result.size),
+          },
+        });
+      }
+      return Response.json(result, { status: route.status });
+    } catch (error) {
+      if (error instanceof MockProblem) {
+        return this.problem(error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Adds a template that can be listed and used to create signature requests
+   * @param template template, the missing properties get defaults
+   */
+  addTemplate(template: Partial<Template> & { name: string }): Template {
+    const id = template.id ?? crypto.randomUUID();
+    const documents = template.documents ?? [
+      { id: crypto.randomUUID(), nature: "signable_document" as const },
+    ];
+    const stored: Template = {
+      id,
+      description: null,
+      created_at: now(),
+      updated_at: null,
+      workspace_id: null,
+      signers: [],
+      read_only_text_fields: [],
+      ...template,
+      documents,
+    };
+    this.templates.set(id, stored);
+    for (const document of documents) {
+      this.templateDocuments.set(
+        document.id,
+        textPdf([`Template ${stored.name}`]),
+      );
+    }
+    return stored;
+  }
+
+  /**
+   * Signs as the signer, the request is done once every signer signed
+   * @throws {Error} The request is not ongoing or it isn't the turn of the signer
+   */
+  async sign(signatureRequestId: string, signerId: string): Promise<void> {
+    const stored = this.find(signatureRequestId);
+    const signer = this.findSigner(stored, signerId);
+    this.assertSignable(stored, signer);
+
+    signer.status = "signed";
+    signer.signature_link = null;
+    stored.certificates.set(signer.id, this.certificate(stored, signer));
+    await this.emit("signer.signed", stored, { signer });
+    await this.emit("signer.done", stored, { signer });
+
+    if (stored.signers.every(({ status }) => status === "signed")) {
+      stored.request.status = "done";
+      for (const { info } of stored.documents) {
+        info.is_signed = info.nature === "signable_document";
+      }
+      await this.emit("signature_request.done", stored);
+    } else {
+      await this.notifySigners(stored);
+    }
+  }
+
+  /**
+   * Declines as the signer, the whole request gets declined
+   * @throws {Error} The request is not ongoing or it isn't the turn of the signer
+   */
+  async decline(
+    signatureRequestId: string,
+    signerId: string,
+    reason = "Declined by the signer",
+  ): Promise<void> {
+    const stored = this.find(signatureRequestId);
+    const signer = this.findSigner(stored, signerId);
+    this.assertSignable(stored, signer);
+
+    signer.status = "declined";
+    signer.signature_link = null;
+    stored.request.status = "declined";
+    stored.request.decline_information = {
+      signer_id: signer.id,
+      reason,
+      decined_at: now(),
+    };
+    for (const other of stored.signers) {
+      if (other.status === "notified" || other.status === "initiated") {
+        other.status = "aborted";
+      }
+    }
+    await this.emit("signer.declined", stored, { signer });
+    await this.emit("signature_request.declined", stored);
+  }
+
+  /**
+   * Approves as the approver, the signers are notified once every approver approved
+   * @throws {Error} The request is not waiting for approvals
+   */
+  async approve(signatureRequestId: string, approverId: string): Promise<void> {
+    const stored = this.find(signatureRequestId);
+    const approver = this.findApprover(stored, approverId);
+
+    approver.status = "approved";
+    approver.approval_link = null;
+    await this.emit("approver.approved", stored, { approver });
+
+    if (stored.approvers.every(({ status }) => status === "approved")) {
+      stored.request.status = "ongoing";
+      await this.emit("signature_request.approved", stored);
+      await this.notifySigners(stored);
+    }
+  }
+
+  /**
+   * Rejects as the approver, the whole request gets rejected
+   * @throws {Error} The request is not waiting for approvals
+   */
+  async reject(signatureRequestId: string, approverId: string): Promise<void> {
+    const stored = this.find(signatureRequestId);
+    const approver = this.findApprover(stored, approverId);
+
+    approver.status = "rejected";
+    approver.approval_link = null;
+    stored.request.status = "rejected";
+    await this.emit("approver.rejected", stored, { approver });
+    await this.emit("signature_request.rejected", stored);
+  }
+
+  /**
+   * Lets the request expire as if its expiration date passed
+   * @throws {Error} The request is not ongoing or waiting for approvals
+   */
+  async expire(signatureRequestId: string): Promise<void> {
+    const stored = this.find(signatureRequestId);
+    if (!["ongoing", "approval"].includes(stored.request.status)) {
+      throw new Error(
+        `Signature request ${signatureRequestId} is ${stored.request.status}, only ongoing requests expire`,
+      );
+    }
+    stored.request.status = "expired";
+    await this.emit("signature_request.expired", stored);
+  }
+
+  private find(signatureRequestId: string): StoredRequest {
+    const stored = this.requests.get(signatureRequestId);
+    if (!stored) {
+      throw new MockProblem(
+        404,
+        `Signature request ${signatureRequestId} not found`,
+      );
+    }
+    return stored;
+  }
+
+  private findSigner(stored: StoredRequest, signerId: string) {
+    const signer = stored.signers.find(({ id }) => id === signerId);
+    if (!signer) {
+      throw new MockProblem(404, `Signer ${signerId} not found`);
+    }
+    return signer;
+  }
+
+  private findApprover(stored: StoredRequest, approverId: string) {
+    const approver = stored.approvers.find(({ id }) => id === approverId);
+    if (!approver) {
+      throw new MockProblem(404, `Approver ${approverId} not found`);
+    }
+    if (stored.request.status !== "approval") {
+      throw new Error(
+        `Signature request ${stored.request.id} is ${stored.request.status}, not waiting for approvals`,
+      );
+    }
+    return approver;
+  }
+
+  private findDocument(stored: StoredRequest, documentId: string) {
+    const document = stored.documents.find(
+      ({ info }) => info.id === documentId,
+    );
+    if (!document) {
+      throw new MockProblem(404, `Document ${documentId} not found`);
+    }
+    return document;
+  }
+
+  private assertStatus(stored: StoredRequest, ...statuses: string[]) {
+    if (!statuses.includes(stored.request.status)) {
+      throw new MockProblem(
+        409,
+        `Signature request ${stored.request.id} is ${stored.request.status}, expected ${statuses.join(" or ")}`,
+      );
+    }
+  }
+
+  private assertSignable(stored: StoredRequest, signer: AddSignerResponse) {
+    if (stored.request.status !== "ongoing") {
+      throw new Error(
+        `Signature request ${stored.request.id} is ${stored.request.status}, only ongoing requests can be signed`,
+      );
+    }
+    if (signer.status !== "notified") {
+      throw new Error(
+        `Signer ${signer.id} is ${signer.status}, only notified signers can sign`,
+      );
+    }
+  }
+
+  private serialize(stored: StoredRequest): SignatureRequest {
+    return {
+      ...stored.request,
+      signers: stored.signers.map(({ id, status }) => ({ id, status })),
+      approvers: stored.approvers.map(({ id, status }) => ({ id, status })),
+      documents: stored.documents.map(({ info }) => ({
+        id: info.id,
+        nature: info.nature,
+      })),
+    };
+  }
+
+  private signatureLink(signerId: string) {
+    return `${new URL(this.baseURL).origin}/signature/${signerId}?token=${crypto.randomUUID()}`;
+  }
+
+  /** Notifies the signers whose turn it is */
+  private async notifySigners(stored: StoredRequest) {
+    const pending = stored.signers.filter(
+      ({ status }) => status === "initiated",
+    );
+    const next = stored.request.ordered_signers
+      ? stored.signers.some(({ status }) => status === "notified")
+        ? []
+        : pending.slice(0, 1)
+      : pending;
+
+    for (const signer of next) {
+      signer.status = "notified";
+      signer.signature_link = this.signatureLink(signer.id);
+      signer.signature_link_expiration_date = `${stored.request.expiration_date}T23:59:59+00:00`;
+      await this.emit("signer.notified", stored, { signer });
+    }
+  }
+
+  private certificate(
+    stored: StoredRequest,
+    signer: AddSignerResponse,
+  ): CertificateData {
+    const signedAt = now();
+    return {
+      version: 1,
+      signature_request: this.serialize(stored),
+      sender: {
+        id: "mock-sender",
+        type: "User",
+        email: "sender@mock.yousign.local",
+        first_name: "Mock",
+        last_name: "Sender",
+        ip_address: "127.0.0.1",
+        phone_number: "+33600000000",
+      },
+      signer: {
+        id: signer.id,
+        first_name: signer.info.first_name,
+        last_name: signer.info.last_name,
+        email_address: signer.info.email,
+        phone_number: signer.info.phone_number ?? "",
+        ip_address: "127.0.0.1",
+        consent_given_at: signedAt,
+        signature_process_completed_at: signedAt,
+      },
+      documents: stored.documents.map(({ info }) => ({
+        id: info.id,
+        name: info.filename,
+        mime_type: info.content_type,
+        signatures: [],
+        initial_hash: info.sha256,
+        initial_storage_id: info.id,
+      })),
+      organization: { id: "mock-organization", name: "Mock organization" },
+      authentication: {
+        mode: signer.signature_authentication_mode ?? "no_otp",
+        message: "Authenticated by the mock server",
+        validated_at: signedAt,
+      },
+      electronic_signature_level: { level: signer.signature_level },
+    };
+  }
+
+  private async emit(
+    name: WebhookEventName,
+    stored: StoredRequest,
+    data: {
+      signer?: AddSignerResponse;
+      approver?: AddApproverResponse;
+    } = {},
+  ) {
+    const event = {
+      event_id: crypto.randomUUID(),
+      event_name: name,
+      event_time: String(Math.floor(Date.now() / 1000)),
+      subscription_id: "",
+      subscription_description: null,
+      sandbox: true,
+      data: {
+        signature_request: this.serialize(stored),
+        ...(data.signer && {
+          signer: { id: data.signer.id, status: data.signer.status },
+        }),
+        ...(data.approver && {
+          approver: { id: data.approver.id, status: data.approver.status },
+        }),
+      },
+    } as WebhookEvent;
+    this.events.push(event);
+
+    if (!this.options.webhooks) {
+      return;
+    }
+    const deliver =
+      this.options.webhookFetch ?? ((request: Request) => fetch(request));
+    for (const subscription of this.webhooks.values()) {
+      const subscribed = subscription.subscribed_events as string[];
+      if (
+        !subscription.enabled ||
+        !(subscribed.includes("*") || subscribed.includes(name))
+      ) {
+        continue;
+      }
+      const body = JSON.stringify({
+        ...event,
+        subscription_id: subscription.id,
+        subscription_description: subscription.description,
+      });
+      const signature = await computeWebhookSignature(
+        body,
+        subscription.secret_key!,
+      );
+      const delivery: MockWebhookDelivery = {
+        event_id: event.event_id,
+        event_name: name,
+        subscription_id: subscription.id,
+        endpoint: subscription.endpoint,
+        status: null,
+        error: null,
+      };
+      this.deliveries.push(delivery);
+      try {
+        const response = await deliver(
+          new Request(subscription.endpoint, {
+            method: "POST",
+            body,
+            headers: {
+              "content-type": "application/json",
+              [SIGNATURE_HEADER]: `sha256=${signature}`,
+            },
+          }),
+        );
+        delivery.status = response.status;
+        if (!response.ok) {
+          delivery.error = `The endpoint answered with status ${response.status}`;
+        }
+      } catch (error) {
+        delivery.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+  }
+
+  private problem(error: MockProblem): Response {
+    const body: ApiProblem = {
+      type: "about:blank",
+      title: error.message,
+      status: error.status,
+      detail: error.message,
+      ...(error.violations && { invalid_params: error.violations }),
+    };
+    return Response.json(body, {
+      status: error.status,
+      headers: {
+        "content-type": "application/problem+json",
+        "x-request-id": crypto.randomUUID(),
+      },
+    });
+  }
+
+  private route(
+    method: string,
+    path: string,
+    handler: Route["handler"],
+    status = 200,
+  ) {
+    const keys: string[] = [];
+    const pattern = new RegExp(
+      `^${path.replace(/:(\w+)/g, (_, key) => {
+        keys.push(key);
+        return "([^/]+)";
+      })}$`,
+    );
+    this.routes.push({ method, pattern, keys, status, handler });
+  }
+
+  private async storeDocument(
+    request: Request,
+    stored: StoredRequest,
+    existing?: StoredDocument,
+  ): Promise<StoredDocument> {
+    const form = await request.formData().catch(() => {
+      throw new MockProblem(400, "The body must be multipart/form-data");
+    });
+    const file = form.get("file");
+    if (!(file instanceof Blob)) {
+      throw new MockProblem(400, "Invalid body", [
+        { name: "file", reason: "This value should not be null." },
+      ]);
+    }
+    const data = new Uint8Array(await file.arrayBuffer());
+    const nature = (form.get("nature") ??
+      existing?.info.nature) as DocumentInfo["nature"];
+    if (nature !== "signable_document" && nature !== "attachment") {
+      throw new MockProblem(400, "Invalid body", [
+        { name: "nature", reason: "The value you selected is not valid." },
+      ]);
+    }
+
+    let totalAnchors = 0;
+    if (form.get("parse_anchors") === "true") {
+      totalAnchors = await scanAnchors(data)
+        .then(({ anchors }) => anchors.length)
+        .catch(() => 0);
+    }
+
+    const document: StoredDocument = {
+      data,
+      info: {
+        id: existing?.info.id ?? crypto.randomUUID(),
+        filename:
+          file instanceof File && file.name ? file.name : "document.pdf",
+        nature,
+        content_type: file.type || "application/pdf",
+        sha256: sha256(data),
+        is_protected: Boolean(form.get("password")),
+        is_signed: false,
+        created_at: existing?.info.created_at ?? now(),
+        total_pages: countPages(data) ?? 0,
+        is_locked: false,
+        initials: form.get("initials")
+          ? JSON.parse(String(form.get("initials")))
+          : null,
+        total_anchors: totalAnchors,
+      },
+    };
+
+    if (existing) {
+      stored.documents[stored.documents.indexOf(existing)] = document;
+      return document;
+    }
+    const after = form.get("insert_after_id");
+    const index = after
+      ? stored.documents.findIndex(({ info }) => info.id === after) + 1
+      : stored.documents.length;
+    stored.documents.splice(index || stored.documents.length, 0, document);
+    return document;
+  }
+
+  private createSigner(
+    body: Record<string, any>,
+    stored: StoredRequest,
+  ): AddSignerResponse {
+    let info: SignerInfo;
+    if (body.contact_id) {
+      const contact = this.contacts.get(body.contact_id);
+      if (!contact) {
+        throw new MockProblem(404, `Contact ${body.contact_id} not found`);
+      }
+      const { id, created_at, ...contactInfo } = contact;
+      info = contactInfo;
+    } else if (body.user_id) {
+      info = {
+        first_name: "Workspace",
+        last_name: "User",
+        email: `${body.user_id}@mock.yousign.local`,
+        phone_number: null,
+        locale: "en",
+      };
+    } else {
+      required(body, "info");
+      info = body.info;
+    }
+    required(body, "signature_level");
+
+    return {
+      id: crypto.randomUUID(),
+      info,
+      status: "initiated",
+      fields: (body.fields ?? []).map((field: Record<string, any>) => {
+        this.findDocument(stored, field.document_id);
+        return { ...field, id: crypto.randomUUID() };
+      }),
+      signature_level: body.signature_level,
+      signature_authentication_mode: body.signature_authentication_mode ?? null,
+      signature_link: null,
+      signature_link_expiration_date: null,
+      signature_image_preview: null,
+      redirect_urls: {
+        success: null,
+        error: null,
+        declined: null,
+        ...body.redirect_urls,
+      },
+      custom_text: {
+        request_subject: null,
+        request_body: null,
+        reminder_subject: null,
+        reminder_body: null,
+        ...body.custom_text,
+      },
+      delivery_mode: body.delivery_mode ?? null,
+      identification_attestation_id: body.identification_attestation_id ?? null,
+    };
+  }
+
+  private registerRoutes() {
+    const request = (params: Record<string, string>) => this.find(params.id);
+
+    //signature requests
+    this.route(
+      "POST",
+      "/signature_requests",
+      async (context) => {
+        const body = await jsonBody(context.request);
+        const template = body.template_id
+          ? this.templates.get(body.template_id)
+          : undefined;
+        if (body.template_id && !template) {
+          throw new MockProblem(404, `Template ${body.template_id} not found`);
+        }
+        required(body, "name", ...(template ? [] : ["delivery_mode"]));
+
+        const {
+          template_id,
+          template_placeholders,
+          ordered_signer,
+          email_notification,
+          documents,
+          ...options
+        } = body;
+        const stored: StoredRequest = {
+          request: {
+            id: crypto.randomUUID(),
+            name: body.name,
+            status: "draft",
+            delivery_mode: "none",
+            created_at: now(),
+            ordered_signers: Boolean(ordered_signer ?? body.ordered_signers),
+            reminder_settings: null,
+            timezone: "Europe/Paris",
+            expiration_date: inMonths(6),
+            source: "public_api",
+            signers: [],
+            approvers: [],
+            documents: [],
+            sender: null,
+            external_id: null,
+            custom_experience_id: null,
+            signers_allowed_to_decline: false,
+            audit_trail_locale: "en",
+            email_notification: {
+              sender: email_notification?.sender ?? { type: "organization" },
+              custom_note: email_notification?.custom_note ?? null,
+            },
+            bulk_send_batch_id: null,
+            decline_information: null,
+            email_custom_note: null,
+            branding_id: null,
+            ...options,
+          },
+          documents: [],
+          signers: [],
+          approvers: [],
+          followers: [],
+          certificates: new Map(),
+        };
+
+        if (template) {
+          stored.documents = template.documents.map(({ id, nature }) => {
+            const data = this.templateDocuments.get(id) ?? textPdf([]);
+            return {
+              data,
+              info: {
+                id: crypto.randomUUID(),
+                filename: `${template.name}.pdf`,
+                nature,
+                content_type: "application/pdf",
+                sha256: sha256(data),
+                is_protected: false,
+                is_signed: false,
+                created_at: now(),
+                total_pages: countPages(data) ?? 0,
+                is_locked: false,
+                initials: null,
+                total_anchors: 0,
+              } as DocumentInfo,
+            };
+          });
+          //the fields of a template signer are placed on its first document
+          const [first] = stored.documents;
+          for (const placeholder of template_placeholders?.signers ?? []) {
+            const { label, ...signer } = placeholder;
+            const fields = first
+              ? [
+                  {
+                    type: "signature",
+                    document_id: first.info.id,
+                    page: 1,
+                    x: 72,
+                    y: 700,
+                  },
+                ]
+              : [];
+            stored.signers.push(
+              this.createSigner(
+                { signature_level: "electronic_signature", fields, ...signer },
+                stored,
+              ),
+            );
+          }
+        }
+
+        this.requests.set(stored.request.id, stored);
+        await this.emit("signature_request.created", stored);
+        return this.serialize(stored);
+      },
+      201,
+    );
+    this.route("GET", "/signature_requests", ({ query }) => {
+      const status = query.get("status");
+      const externalId = query.get("external_id");
+      const search = query.get("q")?.toLowerCase();
+      const requests = [...this.requests.values()]
+        .map((stored) => this.serialize(stored))
+        .filter(
+          (request) =>
+            (!status || request.status === status) &&
+            (!externalId || request.external_id === externalId) &&
+            (!search || request.name.toLowerCase().includes(search)),
+        );
+      return paginate(requests, query);
+    });
+    this.route("GET", "/signature_requests/:id", ({ params }) =>
+      this.serialize(request(params)),
+    );
+    this.route("PATCH", "/signature_requests/:id", async (context) => {
+      const stored = request(context.params);
+      this.assertStatus(stored, "draft", "ongoing");
+      const { id, status, ...changes } = await jsonBody(context.request);
+      Object.assign(stored.request, changes);
+      return this.serialize(stored);
+    });
+    this.route(
+      "DELETE",
+      "/signature_requests/:id",
+      async ({ params, query }) => {
+        const stored = request(params);
+        this.assertStatus(
+          stored,
+          "draft",
+          "done",
+          "expired",
+          "canceled",
+          "declined",
+          "rejected",
+          "deleted",
+        );
+        if (query.get("permanent_delete") === "true") {
+          this.requests.delete(stored.request.id);
+          await this.emit("signature_request.permanently_deleted", stored);
+          return;
+        }
+        stored.request.status = "deleted";
+        await this.emit("signature_request.deleted", stored);
+      },
+    );
+    this.route(
+      "POST",
+      "/signature_requests/:id/activate",
+      async ({ params }): Promise<SignatureRequestActivateResponse> => {
+        const stored = request(params);
+        this.assertStatus(stored, "draft");
+        if (
+          !stored.documents.some(
+            ({ info }) => info.nature === "signable_document",
+          )
+        ) {
+          throw new MockProblem(
+            409,
+            "At least one signable document is required",
+          );
+        }
+        if (!stored.signers.length) {
+          throw new MockProblem(409, "At least one signer is required");
+        }
+        const unsigned = stored.signers.find(
+          ({ fields }) => !fields.some(({ type }) => type === "signature"),
+        );
+        if (unsigned) {
+          throw new MockProblem(
+            409,
+            `Signer ${unsigned.id} needs at least one signature field`,
+          );
+        }
+
+        await this.emit("signature_request.activated", stored);
+        if (stored.approvers.length) {
+          stored.request.status = "approval";
+          for (const approver of stored.approvers) {
+            approver.status = "notified";
+            approver.approval_link = `${new URL(this.baseURL).origin}/approval/${approver.id}?token=${crypto.randomUUID()}`;
+            approver.approval_link_expiration_date = `${stored.request.expiration_date}T23:59:59+00:00`;
+            await this.emit("approver.notified", stored, { approver });
+          }
+        } else {
+          stored.request.status = "ongoing";
+          await this.notifySigners(stored);
+        }
+
+        const serialized = this.serialize(stored);
+        return {
+          ...serialized,
+          status: serialized.status as "ongoing" | "approval",
+          signers: stored.signers.map(
+            ({
+              id,
+              status,
+              signature_link,
+              signature_link_expiration_date,
+            }) => ({
+              id,
+              status,
+              signature_link,
+              signature_link_expiration_date,
+            }),
+          ),
+          approvers: stored.approvers.map(
+            ({ id, status, approval_link, approval_link_expiration_date }) => ({
+              id,
+              status,
+              approval_link,
+              approval_link_expiration_date,
+            }),
+          ),
+        } as SignatureRequestActivateResponse;
+      },
+      201,
+    );
+    this.route(
+      "POST",
+      "/signature_requests/:id/cancel",
+      async (context) => {
+        const stored = request(context.params);
+        this.assertStatus(stored, "ongoing", "approval");
+        const body = await jsonBody(context.request);
+        required(body, "reason");
+        stored.request.status = "canceled";
+        for (const signer of stored.signers) {
+          signer.signature_link = null;
+          if (signer.status !== "signed") {
+            signer.status = "aborted";
+          }
+        }
+        await this.emit("signature_request.canceled", stored);
+        return this.serialize(stored);
+      },
+      201,
+    );
+    this.route(
+      "POST",
+      "/signature_requests/:id/reactivate",
+      async (context) => {
+        const stored = request(context.params);
+        this.assertStatus(stored, "expired");
+        const body = await jsonBody(context.request);
+        required(body, "expiration_date");
+        stored.request.expiration_date = body.expiration_date;
+        stored.request.status = stored.approvers.some(
+          ({ status }) => status !== "approved",
+        )
+          ? "approval"
+          : "ongoing";
+        await this.emit("signature_request.reactivated", stored);
+        return this.serialize(stored);
+      },
+      201,
+    );
+
+    //documents
+    this.route(
+      "POST",
+      "/signature_requests/:id/documents",
+      async (context) => {
+        const stored = request(context.params);
+        this.assertStatus(stored, "draft");
+        return (await this.storeDocument(context.request, stored)).info;
+      },
+      201,
+    );
+    this.route("GET", "/signature_requests/:id/documents", ({ params }) =>
+      request(params).documents.map(({ info }) => info),
+    );
+    this.route(
+      "GET",
+      "/signature_requests/:id/documents/download",
+      ({ params, query }) => {
+        const stored = request(params);
+        if (query.get("version") === "completed") {
+          this.assertStatus(stored, "done");
+        }
+        if (stored.documents.length === 1 && query.get("archive") !== "true") {
+          const [{ data, info }] = stored.documents;
+          return new Blob([data as BlobPart], { type: info.content_type });
+        }
+        const archive = zip(
+          stored.documents.map(({ data, info }) => ({
+            name: info.filename,
+            data,
+          })),
+        );
+        return new Blob([archive as BlobPart], { type: "application/zip" });
+      },
+    );
+    this.route(
+      "GET",
+      "/signature_requests/:id/documents/:documentId",
+      ({ params }) =>
+        this.findDocument(request(params), params.documentId).info,
+    );
+    this.route(
+      "PATCH",
+      "/signature_requests/:id/documents/:documentId",
+      async (context) => {
+        const stored = request(context.params);
+        this.assertStatus(stored, "draft");
+        const document = this.findDocument(stored, context.params.documentId);
+        const { insert_after_id, ...changes } = await jsonBody(context.request);
+        Object.assign(document.info, changes);
+        if (insert_after_id !== undefined) {
+          stored.documents.splice(stored.documents.indexOf(document), 1);
+          const index = insert_after_id
+            ? stored.documents.findIndex(
+                ({ info }) => info.id === insert_after_id,
+              ) + 1
+            : 0;
+          stored.documents.splice(index, 0, document);
+        }
+        return document.info;
+      },
+    );
+    this.route(
+      "DELETE",
+      "/signature_requests/:id/documents/:documentId",
+      ({ params }) => {
+        const stored = request(params);
+        this.assertStatus(stored, "draft");
+        const document = this.findDocument(stored, params.documentId);
+        stored.documents.splice(stored.documents.indexOf(document), 1);
+        for (const signer of stored.signers) {
+          signer.fields = signer.fields.filter(
+            (field) => field.document_id !== document.info.id,
+          );
+        }
+      },
+    );
+    this.route(
+      "POST",
+      "/signature_requests/:id/documents/:documentId/replace",
+      async (context) => {
+        const stored = request(context.params);
+        this.assertStatus(stored, "draft");
+        const existing = this.findDocument(stored, context.params.documentId);
+        return (await this.storeDocument(context.request, stored, existing))
+          .info;
+      },
+      201,
+    );
+    this.route(
+      "GET",
+      "/signature_requests/:id/documents/:documentId/download",
+      ({ params }) => {
+        const { data, info } = this.findDocument(
+          request(params),
+          params.documentId,
+        );
+        return new Blob([data as BlobPart], { type: info.content_type });
+      },
+    );
+
+    //fields
+    this.route(
+      "POST",
+      "/signature_requests/:id/documents/:documentId/fields",
+      async (context) => {
+        const stored = request(context.params);
+        this.assertStatus(stored, "draft");
+        const document = this.findDocument(stored, context.params.documentId);
+        const { signer_id, ...field } = await jsonBody(context.request);
+        required({ signer_id, ...field }, "signer_id", "type");
+        const signer = this.findSigner(stored, signer_id);
+        const created = {
+          ...field,
+          id: crypto.randomUUID(),
+          document_id: document.info.id,
+        } as SignerFieldInput;
+        signer.fields.push(created);
+        return created;
+      },
+      201,
+    );
+    this.route(
+      "PATCH",
+      "/signature_requests/:id/documents/:documentId/fields/:fieldId",
+      async (context) => {
+        const stored = request(context.params);
+        this.assertStatus(stored, "draft");
+        const field = stored.signers
+          .flatMap(({ fields }) => fields)
+          .find(({ id }) => id === context.params.fieldId);
+        if (!field) {
+          throw new MockProblem(
+            404,
+            `Field ${context.params.fieldId} not found`,
+          );
+        }
+        const { id, type, document_id, ...changes } = await jsonBody(
+          context.request,
+        );
+        return Object.assign(field, changes);
+      },
+    );
+    this.route(
+      "DELETE",
+      "/signature_requests/:id/documents/:documentId/fields/:fieldId",
+      ({ params }) => {
+        const stored = request(params);
+        this.assertStatus(stored, "draft");
+        const signer = stored.signers.find(({ fields }) =>
+          fields.some(({ id }) => id === params.fieldId),
+        );
+        if (!signer) {
+          throw new MockProblem(404, `Field ${params.fieldId} not found`);
+        }
+        signer.fields = signer.fields.filter(({ id }) => id !== params.fieldId);
+      },
+    );
+
+    //signers
+    this.route(
+      "POST",
+      "/signature_requests/:id/signers",
+      async (context) => {
+        const stored = request(context.params);
+        this.assertStatus(stored, "draft");
+        const body = await jsonBody(context.request);
+        const signer = this.createSigner(body, stored);
+        const index = body.insert_after_id
+          ? stored.signers.findIndex(({ id }) => id === body.insert_after_id) +
+            1
+          : stored.signers.length;
+        stored.signers.splice(index || stored.signers.length, 0, signer);
+        return signer;
+      },
+      201,
+    );
+    this.route(
+      "GET",
+      "/signature_requests/:id/signers/:signerId",
+      ({ params }) => this.findSigner(request(params), params.signerId),
+    );
+    this.route(
+      "PATCH",
+      "/signature_requests/:id/signers/:signerId",
+      async (context) => {
+        const stored = request(context.params);
+        this.assertStatus(stored, "draft");
+        const signer = this.findSigner(stored, context.params.signerId);
+        const { info, fields, id, status, ...changes } = await jsonBody(
+          context.request,
+        );
+        Object.assign(signer, changes);
+        if (info) {
+          signer.info = { ...signer.info, ...info };
+        }
+        if (fields) {
+          signer.fields = this.createSigner(
+            {
+              info: signer.info,
+              signature_level: signer.signature_level,
+              fields,
+            },
+            stored,
+          ).fields;
+        }
+        return signer;
+      },
+    );
+    this.route(
+      "DELETE",
+      "/signature_requests/:id/signers/:signerId",
+      ({ params }) => {
+        const stored = request(params);
+        this.assertStatus(stored, "draft");
+        const signer = this.findSigner(stored, params.signerId);
+        stored.signers.splice(stored.signers.indexOf(signer), 1);
+      },
+    );
+    this.route(
+      "POST",
+      "/signature_requests/:id/signers/:signerId/send_reminder",
+      async ({ params }) => {
+        const stored = request(params);
+        this.assertStatus(stored, "ongoing");
+        const signer = this.findSigner(stored, params.signerId);
+        if (signer.status !== "notified") {
+          throw new MockProblem(
+            409,
+            `Signer ${signer.id} is ${signer.status}, only notified signers can be reminded`,
+          );
+        }
+        await this.emit("signature_request.reminder_executed", stored, {
+          signer,
+        });
+      },
+      201,
+    );
+    this.route(
+      "POST",
+      "/signature_requests/:id/signers/:signerId/renew_signature_link",
+      ({ params }) => {
+        const stored = request(params);
+        this.assertStatus(stored, "ongoing");
+        const signer = this.findSigner(stored, params.signerId);
+        if (signer.status !== "notified") {
+          throw new MockProblem(
+            409,
+            `Signer ${signer.id} is ${signer.status}, only notified signers have a link`,
+          );
+        }
+        signer.signature_link = this.signatureLink(signer.id);
+        return signer;
+      },
+      201,
+    );
+
+    //audit trails
+    const certificate = (params: Record<string, string>) => {
+      const stored = request(params);
+      const signer = this.findSigner(stored, params.signerId);
+      const data = stored.certificates.get(signer.id);
+      if (!data) {
+        throw new MockProblem(
+          404,
+          `Signer ${signer.id} is ${signer.status}, the audit trail exists once the signer signed`,
+        );
+      }
+      return data;
+    };
+    const auditTrailPdf = (data: CertificateData[]) =>
+      new Blob(
+        [
+          textPdf(
+            data.flatMap(({ signer, signature_request }) => [
+              `Audit trail of ${signature_request.name}`,
+              `Signed by ${signer.first_name} ${signer.last_name} <${signer.email_address}>`,
+              `at ${signer.signature_process_completed_at}`,
+            ]),
+          ) as BlobPart,
+        ],
+        { type: "application/pdf" },
+      );
+    this.route(
+      "GET",
+      "/signature_requests/:id/signers/:signerId/audit_trails",
+      ({ params }) => certificate(params),
+    );
+    this.route(
+      "GET",
+      "/signature_requests/:id/signers/:signerId/audit_trails/download",
+      ({ params }) => auditTrailPdf([certificate(params)]),
+    );
+    this.route(
+      "GET",
+      "/signature_requests/:id/audit_trails/download",
+      ({ params }) => {
+        const stored = request(params);
+        this.assertStatus(stored, "done");
+        return auditTrailPdf([...stored.certificates.values()]);
+      },
+    );
+
+    //approvers
+    this.route(
+      "POST",
+      "/signature_requests/:id/approvers",
+      async (context) => {
+        const stored = request(context.params);
+        this.assertStatus(stored, "draft");
+        const body = await jsonBody(context.request);
+        required(body, "info");
+        const approver: AddApproverResponse = {
+          id: crypto.randomUUID(),
+          status: "initiated",
+          info: body.info,
+          approval_link: null,
+          approval_link_expiration_date: null,
+          delivery_mode: body.delivery_mode ?? null,
+          custom_text: {
+            request_subject: null,
+            request_body: null,
+            reminder_subject: null,
+            reminder_body: null,
+            ...body.custom_text,
+          },
+          redirect_urls: { success: null, error: null, ...body.redirect_urls },
+        } as AddApproverResponse;
+        stored.approvers.push(approver);
+        return approver;
+      },
+      201,
+    );
+    this.route(
+      "GET",
+      "/signature_requests/:id/approvers",
+      ({ params }) => request(params).approvers,
+    );
+    const approver = (params: Record<string, string>) => {
+      const found = request(params).approvers.find(
+        ({ id }) => id === params.approverId,
+      );
+      if (!found) {
+        throw new MockProblem(404, `Approver ${params.approverId} not found`);
+      }
+      return found;
+    };
+    this.route(
+      "GET",
+      "/signature_requests/:id/approvers/:approverId",
+      ({ params }) => approver(params),
+    );
+    this.route(
+      "PATCH",
+      "/signature_requests/:id/approvers/:approverId",
+      async (context) => {
+        this.assertStatus(request(context.params), "draft");
+        const found = approver(context.params);
+        const { info, id, status, ...changes } = await jsonBody(
+          context.request,
+        );
+        Object.assign(found, changes);
+        if (info) {
+          found.info = { ...found.info, ...info };
+        }
+        return found;
+      },
+    );
+    this.route(
+      "DELETE",
+      "/signature_requests/:id/approvers/:approverId",
+      ({ params }) => {
+        const stored = request(params);
+        this.assertStatus(stored, "draft");
+        stored.approvers.splice(stored.approvers.indexOf(approver(params)), 1);
+      },
+    );
+
+    //followers
+    this.route(
+      "POST",
+      "/signature_requests/:id/followers",
+      async (context) => {
+        const stored = request(context.params);
+        const body = await context.request.json();
+        if (!Array.isArray(body)) {
+          throw new MockProblem(400, "The body must be a list of followers");
+        }
+        const followers = body.map((follower) => ({
+          id: crypto.randomUUID(),
+          ...follower,
+          signature_request_id: stored.request.id,
+        }));
+        stored.followers.push(...followers);
+        return followers;
+      },
+      201,
+    );
+    this.route(
+      "GET",
+      "/signature_requests/:id/followers",
+      ({ params }) => request(params).followers,
+    );
+
+    //templates
+    this.route("GET", "/templates", ({ query }) => {
+      const search = query.get("q")?.toLowerCase();
+      return paginate(
+        [...this.templates.values()].filter(
+          ({ name }) => !search || name.toLowerCase().includes(search),
+        ),
+        query,
+      );
+    });
+    this.route("GET", "/templates/:templateId", ({ params }) => {
+      const template = this.templates.get(params.templateId);
+      if (!template) {
+        throw new MockProblem(404, `Template ${params.templateId} not found`);
+      }
+      return template;
+    });
+
+    //contacts
+    const contact = (contactId: string) => {
+      const found = this.contacts.get(contactId);
+      if (!found) {
+        throw new MockProblem(404, `Contact ${contactId} not found`);
+      }
+      return found;
+    };
+    this.route(
+      "POST",
+      "/contacts",
+      async ({ request }) => {
+        const body = await jsonBody(request);
+        required(body, "first_name", "last_name", "email", "locale");
+        const created: Contact = {
+          phone_number: null,
+          ...(body as Omit<Contact, "id" | "created_at">),
+          id: crypto.randomUUID(),
+          created_at: now(),
+        };
+        this.contacts.set(created.id, created);
+        return created;
+      },
+      201,
+    );
+    this.route("GET", "/contacts", ({ query }) => {
+      const search = query.get("q")?.toLowerCase();
+      return paginate(
+        [...this.contacts.values()].filter(
+          ({ first_name, last_name, email }) =>
+            !search ||
+            `${first_name} ${last_name} ${email}`
+              .toLowerCase()
+              .includes(search),
+        ),
+        query,
+      );
+    });
+    this.route("GET", "/contacts/:contactId", ({ params }) =>
+      contact(params.contactId),
+    );
+    this.route("PATCH", "/contacts/:contactId", async ({ params, request }) => {
+      const { id, created_at, ...changes } = await jsonBody(request);
+      return Object.assign(contact(params.contactId), changes);
+    });
+    this.route("DELETE", "/contacts/:contactId", ({ params }) => {
+      this.contacts.delete(contact(params.contactId).id);
+    });
+
+    //webhooks
+    const webhook = (webhookId: string) => {
+      const found = this.webhooks.get(webhookId);
+      if (!found) {
+        throw new MockProblem(404, `Webhook ${webhookId} not found`);
+      }
+      return found;
+    };
+    const withoutSecret = ({
+      secret_key,
+      ...subscription
+    }: WebhookSubscription) => subscription;
+    this.route(
+      "POST",
+      "/webhooks",
+      async ({ request }) => {
+        const body = await jsonBody(request);
+        required(
+          body,
+          "endpoint",
+          "subscribed_events",
+          "sandbox",
+          "auto_retry",
+        );
+        const created: WebhookSubscription = {
+          description: null,
+          enabled: true,
+          scopes: ["*"],
+          ...(body as Omit<WebhookSubscription, "id" | "created_at">),
+          id: crypto.randomUUID(),
+          created_at: now(),
+          secret_key: crypto.randomUUID().replace(/-/g, ""),
+        };
+        this.webhooks.set(created.id, created);
+        return created;
+      },
+      201,
+    );
+    this.route("GET", "/webhooks", () =>
+      [...this.webhooks.values()].map(withoutSecret),
+    );
+    this.route("GET", "/webhooks/:webhookId", ({ params }) =>
+      withoutSecret(webhook(params.webhookId)),
+    );
+    this.route("PATCH", "/webhooks/:webhookId", async ({ params, request }) => {
+      const { id, created_at, secret_key, ...changes } =
+        await jsonBody(request);
+      return withoutSecret(Object.assign(webhook(params.webhookId), changes));
+    });
+    this.route("DELETE", "/webhooks/:webhookId", ({ params }) => {
+      this.webhooks.delete(webhook(params.webhookId).id);
+    });
+  }
+}
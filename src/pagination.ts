@@ -0,0 +1,65 @@
+import type { PaginatedResponse, PaginationOptions } from "./types";
+
+/**
+ * Follows the `next_cursor` of a list endpoint and yields every page
+ * @param fetchPage gets the page that starts after the cursor, undefined for the first page,
+ * the signal of the options is passed on to abort the request
+ * @param options
+ *
+ * @example
+ * ```ts
+ * const pages = paginatePages((after, signal) =>
+ *   client.fetch("/contacts", { query: { after }, signal }),
+ * );
+ * for await (const contacts of pages) {
+ *   console.log(contacts.length);
+ * }
+ * ```
+ */
+export async function* paginatePages<T>(
+  fetchPage: (
+    after: string | undefined,
+    signal?: AbortSignal,
+  ) => Promise<PaginatedResponse<T>>,
+  options: PaginationOptions = {},
+): AsyncGenerator<T[], void, undefined> {
+  const { maxItems = Infinity, signal } = options;
+  let remaining = maxItems;
+  let cursor: string | undefined;
+
+  while (remaining > 0) {
+    signal?.throwIfAborted();
+
+    const page = await fetchPage(cursor, signal);
+    const data =
+      page.data.length > remaining ? page.data.slice(0, remaining) : page.data;
+    remaining -= data.length;
+
+    if (data.length) {
+      yield data;
+    }
+
+    if (!page.meta.next_cursor || !page.data.length) {
+      return;
+    }
+    cursor = page.meta.next_cursor;
+  }
+}
+
+/**
+ * Follows the `next_cursor` of a list endpoint and yields every item of every page
+ * @param fetchPage gets the page that starts after the cursor, undefined for the first page,
+ * the signal of the options is passed on to abort the request
+ * @param options
+ */
+export async function* paginate<T>(
+  fetchPage: (
+    after: string | undefined,
+    signal?: AbortSignal,
+  ) => Promise<PaginatedResponse<T>>,
+  options: PaginationOptions = {},
+): AsyncGenerator<T, void, undefined> {
+  for await (const page of paginatePages(fetchPage, options)) {
+    yield* page;
+  }
+}
@@ -0,0 +1,936 @@
+//Minimal reader for the text layer of PDF files, it only extracts the glyphs with their position
+//and ignores everything else (images, paths, annotations). Encrypted files are not supported
+
+type Matrix = [number, number, number, number, number, number];
+
+type PdfDict = { [key: string]: PdfValue };
+
+type PdfValue =
+  | number
+  | boolean
+  | null
+  /** Names, without the leading slash */
+  | string
+  /** Strings, as raw bytes */
+  | Uint8Array
+  | PdfRef
+  | PdfStream
+  | PdfValue[]
+  | PdfDict;
+
+class PdfRef {
+  constructor(readonly num: number) {}
+}
+
+class PdfStream {
+  constructor(
+    readonly dict: PdfDict,
+    readonly data: Uint8Array,
+  ) {}
+}
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "name"; value: string }
+  | { type: "string"; value: Uint8Array }
+  | { type: "keyword"; value: string }
+  | { type: "<<" | ">>" | "[" | "]" | "eof" };
+
+/** Glyph drawn on a page, in the user space of the page (origin at the bottom left) */
+export type PdfGlyph = {
+  text: string;
+  x: number;
+  y: number;
+  /** Font size in user space */
+  size: number;
+};
+
+/** Text layer of a page */
+export type PdfPage = {
+  /** [left, bottom, right, top] */
+  mediaBox: [number, number, number, number];
+  glyphs: PdfGlyph[];
+};
+
+type Font = {
+  bytesPerCode: 1 | 2;
+  width(code: number): number;
+  text(code: number): string;
+};
+
+type GraphicsState = {
+  ctm: Matrix;
+  font: Font;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  scale: number;
+  leading: number;
+  rise: number;
+};
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const MAX_FORM_DEPTH = 8;
+
+const isWhitespace = (c: number) =>
+  c === 0 || c === 9 || c === 10 || c === 12 || c === 13 || c === 32;
+const isDelimiter = (c: number) =>
+  c === 40 || // (
+  c === 41 || // )
+  c === 60 || // <
+  c === 62 || // >
+  c === 91 || // [
+  c === 93 || // ]
+  c === 123 || // {
+  c === 125 || // }
+  c === 47 || // /
+  c === 37; // %
+
+const latin1 = (bytes: Uint8Array) => {
+  let result = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return result;
+};
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[1] * n[2],
+  m[0] * n[1] + m[1] * n[3],
+  m[2] * n[0] + m[3] * n[2],
+  m[2] * n[1] + m[3] * n[3],
+  m[4] * n[0] + m[5] * n[2] + n[4],
+  m[4] * n[1] + m[5] * n[3] + n[5],
+];
+
+class Lexer {
+  constructor(
+    readonly bytes: Uint8Array,
+    public pos = 0,
+  ) {}
+
+  next(): Token {
+    const bytes = this.bytes;
+    while (this.pos < bytes.length) {
+      const c = bytes[this.pos];
+      if (isWhitespace(c)) {
+        this.pos++;
+      } else if (c === 37) {
+        //comment until the end of the line
+        while (
+          this.pos < bytes.length &&
+          bytes[this.pos] !== 10 &&
+          bytes[this.pos] !== 13
+        ) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+    if (this.pos >= bytes.length) {
+      return { type: "eof" };
+    }
+
+    const c = bytes[this.pos];
+    switch (c) {
+      case 91:
+        this.pos++;
+        return { type: "[" };
+      case 93:
+        this.pos++;
+        return { type: "]" };
+      case 60:
+        if (bytes[this.pos + 1] === 60) {
+          this.pos += 2;
+          return { type: "<<" };
+        }
+        return { type: "string", value: this.hexString() };
+      case 62:
+        this.pos += bytes[this.pos + 1] === 62 ? 2 : 1;
+        return { type: ">>" };
+      case 40:
+        return { type: "string", value: this.literalString() };
+      case 47:
+        return { type: "name", value: this.name() };
+      case 123:
+      case 125:
+        this.pos++;
+        return { type: "keyword", value: String.fromCharCode(c) };
+    }
+
+    const start = this.pos;
+    while (
+      this.pos < bytes.length &&
+      !isWhitespace(bytes[this.pos]) &&
+      !isDelimiter(bytes[this.pos])
+    ) {
+      this.pos++;
+    }
+    const word = latin1(bytes.subarray(start, this.pos));
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      return { type: "number", value: Number(word) };
+    }
+    return { type: "keyword", value: word };
+  }
+
+  private hexString(): Uint8Array {
+    const end = this.bytes.indexOf(62, this.pos);
+    const hex = latin1(
+      this.bytes.subarray(this.pos + 1, end === -1 ? undefined : end),
+    ).replace(/[^0-9a-fA-F]/g, "");
+    this.pos = end === -1 ? this.bytes.length : end + 1;
+    const padded = hex.length % 2 ? `${hex}0` : hex;
+    const result = new Uint8Array(padded.length / 2);
+    for (let i = 0; i < result.length; i++) {
+      result[i] = parseInt(padded.slice(i * 2, i * 2 + 2), 16);
+    }
+    return result;
+  }
+
+  private literalString(): Uint8Array {
+    const bytes = this.bytes;
+    const result: number[] = [];
+    let depth = 1;
+    this.pos++;
+
+    while (this.pos < bytes.length) {
+      const c = bytes[this.pos++];
+      if (c === 92) {
+        const escaped = bytes[this.pos++];
+        switch (escaped) {
+          case 110: // n
+            result.push(10);
+            break;
+          case 114: // r
+            result.push(13);
+            break;
+          case 116: // t
+            result.push(9);
+            break;
+          case 98: // b
+            result.push(8);
+            break;
+          case 102: // f
+            result.push(12);
+            break;
+          case 13:
+            //escaped end of line, the string continues on the next line
+            if (bytes[this.pos] === 10) {
+              this.pos++;
+            }
+            break;
+          case 10:
+            break;
+          default:
+            if (escaped >= 48 && escaped <= 55) {
+              let octal = escaped - 48;
+              for (
+                let i = 0;
+                i < 2 && bytes[this.pos] >= 48 && bytes[this.pos] <= 55;
+                i++
+              ) {
+                octal = octal * 8 + bytes[this.pos++] - 48;
+              }
+              result.push(octal & 0xff);
+            } else {
+              result.push(escaped);
+            }
+        }
+        continue;
+      }
+      if (c === 40) {
+        depth++;
+      } else if (c === 41 && --depth === 0) {
+        break;
+      }
+      result.push(c);
+    }
+    return new Uint8Array(result);
+  }
+
+  private name(): string {
+    const bytes = this.bytes;
+    const start = ++this.pos;
+    while (
+      this.pos < bytes.length &&
+      !isWhitespace(bytes[this.pos]) &&
+      !isDelimiter(bytes[this.pos])
+    ) {
+      this.pos++;
+    }
+    return latin1(bytes.subarray(start, this.pos)).replace(
+      /#([0-9a-fA-F]{2})/g,
+      (_, hex) => String.fromCharCode(parseInt(hex, 16)),
+    );
+  }
+}
+
+class Parser {
+  private readonly buffer: Token[] = [];
+
+  constructor(readonly lexer: Lexer) {}
+
+  peek(index = 0): Token {
+    while (this.buffer.length <= index) {
+      this.buffer.push(this.lexer.next());
+    }
+    return this.buffer[index];
+  }
+
+  take(): Token {
+    return this.buffer.shift() ?? this.lexer.next();
+  }
+
+  value(): PdfValue {
+    const token = this.take();
+    switch (token.type) {
+      case "number": {
+        //"num gen R" is a reference, only look ahead when the next token is a number too
+        if (
+          Number.isInteger(token.value) &&
+          this.peek().type === "number" &&
+          this.peek(1).type === "keyword" &&
+          (this.peek(1) as { value: string }).value === "R"
+        ) {
+          this.take();
+          this.take();
+          return new PdfRef(token.value);
+        }
+        return token.value;
+      }
+      case "name":
+      case "string":
+        return token.value;
+      case "[": {
+        const array: PdfValue[] = [];
+        while (this.peek().type !== "]" && this.peek().type !== "eof") {
+          array.push(this.value());
+        }
+        this.take();
+        return array;
+      }
+      case "<<": {
+        const dict: PdfDict = {};
+        while (this.peek().type !== ">>" && this.peek().type !== "eof") {
+          const key = this.take();
+          if (key.type === "name") {
+            dict[key.value] = this.value();
+          }
+        }
+        this.take();
+        return dict;
+      }
+      case "keyword":
+        return token.value === "true"
+          ? true
+          : token.value === "false"
+            ? false
+            : null;
+      default:
+        return null;
+    }
+  }
+}
+
+const isDict = (value: PdfValue | undefined): value is PdfDict =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Uint8Array) &&
+  !(value instanceof PdfRef) &&
+  !(value instanceof PdfStream);
+
+const asNumber = (value: PdfValue | undefined, fallback: number) =>
+  typeof value === "number" ? value : fallback;
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  const reader = new Blob([data as BlobPart])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate"))
+    .getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(value);
+    }
+  } catch (error) {
+    //some writers add garbage after the compressed data, keep what got inflated
+    if (!chunks.length) {
+      throw error;
+    }
+  }
+  const result = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function utf16(bytes: Uint8Array): string {
+  let result = "";
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    result += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  }
+  return result;
+}
+
+const FALLBACK_FONT: Font = {
+  bytesPerCode: 1,
+  width: () => 500,
+  text: (code) => String.fromCharCode(code),
+};
+
+class PdfDocument {
+  private readonly objects = new Map<number, PdfValue>();
+  /** Offset of the definition of each object, the latest one wins since incremental updates are appended */
+  private readonly offsets = new Map<number, number>();
+  private readonly fonts = new Map<PdfValue, Font>();
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  async load(): Promise<PdfPage[]> {
+    const text = latin1(this.bytes);
+    if (/\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(text)) {
+      throw new Error("Encrypted PDFs are not supported");
+    }
+
+    const objectStart = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = objectStart.exec(text))) {
+      const parser = new Parser(new Lexer(this.bytes, objectStart.lastIndex));
+      try {
+        const value = parser.value();
+        const next = parser.peek();
+        //the lexer is past the token that follows the object, usually endobj
+        let end = parser.lexer.pos;
+        if (
+          isDict(value) &&
+          next.type === "keyword" &&
+          next.value === "stream"
+        ) {
+          const stream = this.readStream(text, value, end);
+          this.define(Number(match[1]), stream, match.index);
+          end =
+            stream.data.byteOffset - this.bytes.byteOffset + stream.data.length;
+        } else {
+          this.define(Number(match[1]), value, match.index);
+        }
+        objectStart.lastIndex = Math.max(objectStart.lastIndex, end);
+      } catch {
+        //broken object, keep scanning
+      }
+    }
+    await this.loadObjectStreams();
+
+    const root = [...text.matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g)].pop();
+    const catalog = root
+      ? this.resolve(new PdfRef(Number(root[1])))
+      : [...this.objects.values()].find(
+          (value) => isDict(value) && value.Type === "Catalog",
+        );
+    if (!isDict(catalog)) {
+      throw new Error("Not a PDF file, no catalog found");
+    }
+
+    const pages: PdfPage[] = [];
+    for (const page of this.collectPages(catalog.Pages, {}, new Set())) {
+      pages.push(await this.readPage(page));
+    }
+    return pages;
+  }
+
+  private readStream(text: string, dict: PdfDict, pos: number): PdfStream {
+    //the data starts after the end of line that follows the stream keyword
+    let start = pos;
+    if (this.bytes[start] === 13) {
+      start++;
+    }
+    if (this.bytes[start] === 10) {
+      start++;
+    }
+    const length = dict.Length;
+    if (
+      typeof length === "number" &&
+      /^\s*endstream/.test(text.slice(start + length, start + length + 32))
+    ) {
+      return new PdfStream(dict, this.bytes.subarray(start, start + length));
+    }
+    //indirect or wrong length, fall back to the endstream keyword
+    let end = text.indexOf("endstream", start);
+    end = end === -1 ? this.bytes.length : end;
+    while (end > start && isWhitespace(this.bytes[end - 1])) {
+      end--;
+    }
+    return new PdfStream(dict, this.bytes.subarray(start, end));
+  }
+
+  private define(num: number, value: PdfValue, offset: number) {
+    if ((this.offsets.get(num) ?? -1) <= offset) {
+      this.objects.set(num, value);
+      this.offsets.set(num, offset);
+    }
+  }
+
+  private async loadObjectStreams() {
+    for (const [streamNum, value] of [...this.objects]) {
+      if (!(value instanceof PdfStream) || value.dict.Type !== "ObjStm") {
+        continue;
+      }
+      const data = await this.decode(value);
+      if (!data) {
+        continue;
+      }
+      const parser = new Parser(new Lexer(data));
+      const count = asNumber(value.dict.N, 0);
+      const first = asNumber(value.dict.First, 0);
+      const offsets: [number, number][] = [];
+      for (let i = 0; i < count; i++) {
+        offsets.push([parser.value() as number, parser.value() as number]);
+      }
+      //the objects of the stream count as defined where the stream is
+      const streamOffset = this.offsets.get(streamNum) ?? 0;
+      for (const [num, offset] of offsets) {
+        this.define(
+          num,
+          new Parser(new Lexer(data, first + offset)).value(),
+          streamOffset,
+        );
+      }
+    }
+  }
+
+  private resolve(value: PdfValue | undefined, depth = 0): PdfValue {
+    if (value instanceof PdfRef && depth < 16) {
+      return this.resolve(this.objects.get(value.num) ?? null, depth + 1);
+    }
+    return value ?? null;
+  }
+
+  private dict(value: PdfValue | undefined): PdfDict {
+    const resolved = this.resolve(value);
+    if (resolved instanceof PdfStream) {
+      return resolved.dict;
+    }
+    return isDict(resolved) ? resolved : {};
+  }
+
+  /** Decoded data of the stream, null if one of the filters isn't supported */
+  private async decode(stream: PdfStream): Promise<Uint8Array | null> {
+    const filter = this.resolve(stream.dict.Filter);
+    const filters = (Array.isArray(filter) ? filter : [filter]).map((f) =>
+      this.resolve(f),
+    );
+    let data = stream.data;
+    for (const name of filters) {
+      if (name === null) {
+        continue;
+      }
+      if (name !== "FlateDecode" && name !== "Fl") {
+        return null;
+      }
+      data = await inflate(data);
+    }
+    return data;
+  }
+
+  private *collectPages(
+    node: PdfValue | undefined,
+    inherited: PdfDict,
+    visited: Set<PdfValue>,
+  ): Generator<PdfDict> {
+    const dict = this.dict(node);
+    if (visited.has(dict)) {
+      return;
+    }
+    visited.add(dict);
+
+    const attributes = {
+      Resources: dict.Resources ?? inherited.Resources,
+      MediaBox: dict.MediaBox ?? inherited.MediaBox,
+    };
+    const kids = this.resolve(dict.Kids);
+    if (Array.isArray(kids)) {
+      for (const kid of kids) {
+        yield* this.collectPages(kid, attributes, visited);
+      }
+    } else {
+      yield { ...dict, ...attributes };
+    }
+  }
+
+  private async readPage(page: PdfDict): Promise<PdfPage> {
+    const box = this.resolve(page.MediaBox);
+    const mediaBox = (
+      Array.isArray(box) && box.length === 4
+        ? box.map((value) => asNumber(this.resolve(value), 0))
+        : [0, 0, 612, 792]
+    ) as PdfPage["mediaBox"];
+
+    const contents = this.resolve(page.Contents);
+    const parts: Uint8Array[] = [];
+    for (const part of Array.isArray(contents) ? contents : [contents]) {
+      const stream = this.resolve(part);
+      const data = stream instanceof PdfStream && (await this.decode(stream));
+      if (data) {
+        parts.push(data, new Uint8Array([10]));
+      }
+    }
+
+    const glyphs: PdfGlyph[] = [];
+    await this.runContent(
+      new Uint8Array(await new Blob(parts as BlobPart[]).arrayBuffer()),
+      this.dict(page.Resources),
+      {
+        ctm: IDENTITY,
+        font: FALLBACK_FONT,
+        fontSize: 0,
+        charSpacing: 0,
+        wordSpacing: 0,
+        scale: 1,
+        leading: 0,
+        rise: 0,
+      },
+      glyphs,
+      0,
+    );
+    return { mediaBox, glyphs };
+  }
+
+  private async runContent(
+    content: Uint8Array,
+    resources: PdfDict,
+    initial: GraphicsState,
+    glyphs: PdfGlyph[],
+    depth: number,
+  ) {
+    const parser = new Parser(new Lexer(content));
+    const stack: GraphicsState[] = [];
+    let state = { ...initial };
+    let tm = IDENTITY;
+    let tlm = IDENTITY;
+    let operands: PdfValue[] = [];
+
+    const num = (index: number) => asNumber(operands[index], 0);
+    const moveLine = (tx: number, ty: number) => {
+      tlm = multiply([1, 0, 0, 1, tx, ty], tlm);
+      tm = tlm;
+    };
+    const show = (bytes: Uint8Array) => {
+      const { font, fontSize, scale } = state;
+      for (let i = 0; i + font.bytesPerCode <= bytes.length;) {
+        const code =
+          font.bytesPerCode === 2 ? (bytes[i] << 8) | bytes[i + 1] : bytes[i];
+        i += font.bytesPerCode;
+
+        const trm = multiply(
+          multiply([fontSize * scale, 0, 0, fontSize, 0, state.rise], tm),
+          state.ctm,
+        );
+        glyphs.push({
+          text: font.text(code),
+          x: trm[4],
+          y: trm[5],
+          size: Math.hypot(trm[2], trm[3]),
+        });
+
+        const advance =
+          ((font.width(code) / 1000) * fontSize +
+            state.charSpacing +
+            (font.bytesPerCode === 1 && code === 32 ? state.wordSpacing : 0)) *
+          scale;
+        tm = multiply([1, 0, 0, 1, advance, 0], tm);
+      }
+    };
+
+    while (true) {
+      const token = parser.peek();
+      if (token.type === "eof") {
+        break;
+      }
+      if (
+        token.type !== "keyword" ||
+        ["true", "false", "null"].includes(token.value)
+      ) {
+        operands.push(parser.value());
+        continue;
+      }
+      parser.take();
+
+      switch (token.value) {
+        case "q":
+          stack.push({ ...state });
+          break;
+        case "Q":
+          state = stack.pop() ?? state;
+          break;
+        case "cm":
+          state.ctm = multiply(
+            [num(0), num(1), num(2), num(3), num(4), num(5)],
+            state.ctm,
+          );
+          break;
+        case "BT":
+          tm = tlm = IDENTITY;
+          break;
+        case "Tf":
+          state.font = await this.font(
+            this.dict(resources.Font)[operands[0] as string],
+          );
+          state.fontSize = num(1);
+          break;
+        case "Tc":
+          state.charSpacing = num(0);
+          break;
+        case "Tw":
+          state.wordSpacing = num(0);
+          break;
+        case "Tz":
+          state.scale = num(0) / 100;
+          break;
+        case "TL":
+          state.leading = num(0);
+          break;
+        case "Ts":
+          state.rise = num(0);
+          break;
+        case "Td":
+          moveLine(num(0), num(1));
+          break;
+        case "TD":
+          state.leading = -num(1);
+          moveLine(num(0), num(1));
+          break;
+        case "Tm":
+          tm = tlm = [num(0), num(1), num(2), num(3), num(4), num(5)];
+          break;
+        case "T*":
+          moveLine(0, -state.leading);
+          break;
+        case "Tj":
+          if (operands[0] instanceof Uint8Array) {
+            show(operands[0]);
+          }
+          break;
+        case "'":
+          moveLine(0, -state.leading);
+          if (operands[0] instanceof Uint8Array) {
+            show(operands[0]);
+          }
+          break;
+        case '"':
+          state.wordSpacing = num(0);
+          state.charSpacing = num(1);
+          moveLine(0, -state.leading);
+          if (operands[2] instanceof Uint8Array) {
+            show(operands[2]);
+          }
+          break;
+        case "TJ":
+          for (const item of Array.isArray(operands[0]) ? operands[0] : []) {
+            if (item instanceof Uint8Array) {
+              show(item);
+            } else if (typeof item === "number") {
+              tm = multiply(
+                [1, 0, 0, 1, (-item / 1000) * state.fontSize * state.scale, 0],
+                tm,
+              );
+            }
+          }
+          break;
+        case "Do": {
+          const xobject = this.resolve(
+            this.dict(resources.XObject)[operands[0] as string],
+          );
+          if (
+            xobject instanceof PdfStream &&
+            xobject.dict.Subtype === "Form" &&
+            depth < MAX_FORM_DEPTH
+          ) {
+            const data = await this.decode(xobject);
+            const matrix = this.resolve(xobject.dict.Matrix);
+            if (data) {
+              await this.runContent(
+                data,
+                xobject.dict.Resources
+                  ? this.dict(xobject.dict.Resources)
+                  : resources,
+                {
+                  ...state,
+                  ctm: multiply(
+                    Array.isArray(matrix) && matrix.length === 6
+                      ? (matrix.map((v) => asNumber(v, 0)) as Matrix)
+                      : IDENTITY,
+                    state.ctm,
+                  ),
+                },
+                glyphs,
+                depth + 1,
+              );
+            }
+          }
+          break;
+        }
+        case "ID": {
+          //inline image, skip the binary data until the EI operator
+          const lexer = parser.lexer;
+          let pos = lexer.pos + 1;
+          while (
+            pos < content.length &&
+            !(
+              content[pos] === 69 &&
+              content[pos + 1] === 73 &&
+              isWhitespace(content[pos - 1]) &&
+              (pos + 2 >= content.length || isWhitespace(content[pos + 2]))
+            )
+          ) {
+            pos++;
+          }
+          lexer.pos = pos + 2;
+          break;
+        }
+      }
+      operands = [];
+    }
+  }
+
+  private async font(value: PdfValue | undefined): Promise<Font> {
+    const dict = this.resolve(value);
+    if (!isDict(dict)) {
+      return FALLBACK_FONT;
+    }
+    const cached = this.fonts.get(dict);
+    if (cached) {
+      return cached;
+    }
+
+    const toUnicode = await this.toUnicode(dict.ToUnicode);
+    let font: Font;
+    if (dict.Subtype === "Type0") {
+      const descendants = this.resolve(dict.DescendantFonts);
+      const descendant = this.dict(
+        Array.isArray(descendants) ? descendants[0] : null,
+      );
+      const defaultWidth = asNumber(this.resolve(descendant.DW), 1000);
+      const widths = this.cidWidths(descendant.W);
+      font = {
+        bytesPerCode: 2,
+        width: (code) => widths.get(code) ?? defaultWidth,
+        text: (code) => toUnicode.get(code) ?? String.fromCharCode(code),
+      };
+    } else {
+      const widths = this.resolve(dict.Widths);
+      const firstChar = asNumber(this.resolve(dict.FirstChar), 0);
+      const missingWidth = asNumber(
+        this.resolve(this.dict(dict.FontDescriptor).MissingWidth),
+        500,
+      );
+      font = {
+        bytesPerCode: 1,
+        width: (code) =>
+          Array.isArray(widths)
+            ? asNumber(this.resolve(widths[code - firstChar]), missingWidth)
+            : missingWidth,
+        text: (code) => toUnicode.get(code) ?? String.fromCharCode(code),
+      };
+    }
+    this.fonts.set(dict, font);
+    return font;
+  }
+
+  private cidWidths(value: PdfValue | undefined): Map<number, number> {
+    const widths = new Map<number, number>();
+    const array = this.resolve(value);
+    if (!Array.isArray(array)) {
+      return widths;
+    }
+    for (let i = 0; i < array.length;) {
+      const first = asNumber(this.resolve(array[i]), 0);
+      const next = this.resolve(array[i + 1]);
+      if (Array.isArray(next)) {
+        next.forEach((width, j) =>
+          widths.set(first + j, asNumber(this.resolve(width), 0)),
+        );
+        i += 2;
+      } else {
+        const last = asNumber(next, first);
+        const width = asNumber(this.resolve(array[i + 2]), 0);
+        for (let code = first; code <= last; code++) {
+          widths.set(code, width);
+        }
+        i += 3;
+      }
+    }
+    return widths;
+  }
+
+  private async toUnicode(
+    value: PdfValue | undefined,
+  ): Promise<Map<number, string>> {
+    const map = new Map<number, string>();
+    const stream = this.resolve(value);
+    const data = stream instanceof PdfStream && (await this.decode(stream));
+    if (!data) {
+      return map;
+    }
+
+    const cmap = latin1(data);
+    const hex = (value: string) =>
+      Uint8Array.from(value.match(/[0-9a-fA-F]{2}/g) ?? [], (byte) =>
+        parseInt(byte, 16),
+      );
+    for (const [, block] of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+      for (const [, source, target] of block.matchAll(
+        /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g,
+      )) {
+        map.set(parseInt(source, 16), utf16(hex(target)));
+      }
+    }
+    for (const [, block] of cmap.matchAll(
+      /beginbfrange([\s\S]*?)endbfrange/g,
+    )) {
+      for (const [, low, high, target, targets] of block.matchAll(
+        /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(?:<([0-9a-fA-F]*)>|\[([^\]]*)\])/g,
+      )) {
+        const first = parseInt(low, 16);
+        const last = parseInt(high, 16);
+        if (targets !== undefined) {
+          [...targets.matchAll(/<([0-9a-fA-F]*)>/g)].forEach(([, t], i) =>
+            map.set(first + i, utf16(hex(t))),
+          );
+          continue;
+        }
+        //the last code unit gets incremented for every code of the range
+        const base = hex(target);
+        if (base.length < 2) {
+          continue;
+        }
+        for (let code = first; code <= last && code - first < 0x10000; code++) {
+          const bytes = base.slice();
+          const offset = code - first;
+          const last16 =
+            ((bytes[bytes.length - 2] << 8) | bytes[bytes.length - 1]) + offset;
+          bytes[bytes.length - 2] = (last16 >> 8) & 0xff;
+          bytes[bytes.length - 1] = last16 & 0xff;
+          map.set(code, utf16(bytes));
+        }
+      }
+    }
+    return map;
+  }
+}
+
+/**
+ * Reads the glyphs of every page of the PDF
+ * @param bytes content of the PDF file
+ * @throws {Error} The file is encrypted or not a PDF
+ */
+export function readPdfText(bytes: Uint8Array): Promise<PdfPage[]> {
+  return new PdfDocument(bytes).load();
+}
@@ -0,0 +1,187 @@
+import type {
+  FieldInput,
+  FieldToPlace,
+  LengthUnit,
+  PageFormat,
+  PageLayoutOptions,
+  PageSize,
+  Placement,
+  StackPlacement,
+} from "./types";
+
+const POINTS_PER_UNIT: Record<LengthUnit, number> = {
+  pt: 1,
+  mm: 72 / 25.4,
+  cm: 72 / 2.54,
+  in: 72,
+};
+
+/** Page sizes of the presets, in points */
+export const PAGE_FORMATS: Record<PageFormat, PageSize> = {
+  A4: { width: 595.28, height: 841.89 },
+  Letter: { width: 612, height: 792 },
+};
+
+/**
+ * Converts a length to PDF points
+ * @param value length in the unit
+ * @param unit unit of the value
+ */
+export function toPoints(value: number, unit: LengthUnit): number {
+  return value * POINTS_PER_UNIT[unit];
+}
+
+/** Converts millimetres to PDF points */
+export const mm = (value: number) => toPoints(value, "mm");
+/** Converts centimetres to PDF points */
+export const cm = (value: number) => toPoints(value, "cm");
+/** Converts inches to PDF points */
+export const inches = (value: number) => toPoints(value, "in");
+
+/**
+ * Size the field takes on the page, in points
+ * @throws {Error} Mentions and text fields have no default size
+ */
+function fieldSize(field: FieldToPlace): PageSize {
+  switch (field.type) {
+    case "signature":
+      return { width: field.width ?? 85, height: field.height ?? 37 };
+    case "checkbox":
+      return { width: field.size, height: field.size };
+    default:
+      if (!field.width || !field.height) {
+        throw new Error(
+          `Width and height are required to place a ${field.type} field`,
+        );
+      }
+      return { width: field.width, height: field.height };
+  }
+}
+
+/**
+ * Places fields on pages of a known size. Offsets are measured from a corner of the page
+ * towards its center, so `{ corner: "bottom-right", x: 20, y: 20 }` keeps the field 20 units
+ * away from the right and the bottom edge
+ *
+ * @example
+ * ```ts
+ * const layout = new PageLayout("A4", { unit: "mm" });
+ * const fields = layout.row(
+ *   [
+ *     { type: "signature", document_id },
+ *     { type: "mention", document_id, mention: "Read and approved", width: 150, height: 20 },
+ *   ],
+ *   { page: 2, corner: "bottom-left", x: 20, y: 25, gap: 10 },
+ * );
+ * await yousign.addSigner(signatureRequestId, { info, signature_level, fields });
+ * ```
+ */
+export class PageLayout {
+  /** Size of the pages, in points */
+  readonly size: PageSize;
+  private readonly unit: LengthUnit;
+
+  /**
+   * @param size preset or custom size, in the unit of the layout
+   * @param options
+   */
+  constructor(size: PageFormat | PageSize, options: PageLayoutOptions = {}) {
+    this.unit = options.unit ?? "pt";
+    this.size =
+      typeof size === "string"
+        ? PAGE_FORMATS[size]
+        : {
+            width: toPoints(size.width, this.unit),
+            height: toPoints(size.height, this.unit),
+          };
+  }
+
+  /**
+   * Places a single field
+   * @param field field without page and position
+   * @param placement page, corner and offsets from the corner
+   * @throws {Error} The field doesn't fit on the page
+   */
+  place(field: FieldToPlace, placement: Placement): FieldInput {
+    return this.placeAt(
+      field,
+      placement,
+      toPoints(placement.x, this.unit),
+      toPoints(placement.y, this.unit),
+    );
+  }
+
+  /**
+   * Places fields next to each other, moving away from the corner horizontally
+   * @param fields fields without page and position
+   * @param placement where the first field goes and the gap between the fields
+   * @throws {Error} A field doesn't fit on the page
+   */
+  row(fields: FieldToPlace[], placement: StackPlacement): FieldInput[] {
+    return this.stack(fields, placement, "width");
+  }
+
+  /**
+   * Places fields below or above each other, moving away from the corner vertically
+   * @param fields fields without page and position
+   * @param placement where the first field goes and the gap between the fields
+   * @throws {Error} A field doesn't fit on the page
+   */
+  column(fields: FieldToPlace[], placement: StackPlacement): FieldInput[] {
+    return this.stack(fields, placement, "height");
+  }
+
+  private stack(
+    fields: FieldToPlace[],
+    placement: StackPlacement,
+    axis: keyof PageSize,
+  ): FieldInput[] {
+    const gap = toPoints(placement.gap ?? 0, this.unit);
+    let x = toPoints(placement.x, this.unit);
+    let y = toPoints(placement.y, this.unit);
+
+    return fields.map((field) => {
+      const placed = this.placeAt(field, placement, x, y);
+      if (axis === "width") {
+        x += fieldSize(field).width + gap;
+      } else {
+        y += fieldSize(field).height + gap;
+      }
+      return placed;
+    });
+  }
+
+  private placeAt(
+    field: FieldToPlace,
+    { page, corner = "top-left" }: Placement,
+    offsetX: number,
+    offsetY: number,
+  ): FieldInput {
+    const { width, height } = fieldSize(field);
+    const x = corner.endsWith("right")
+      ? this.size.width - offsetX - width
+      : offsetX;
+    //the API measures y from the top of the page
+    const y = corner.startsWith("bottom")
+      ? this.size.height - offsetY - height
+      : offsetY;
+
+    if (
+      x < 0 ||
+      y < 0 ||
+      x + width > this.size.width ||
+      y + height > this.size.height
+    ) {
+      throw new Error(
+        `The ${field.type} field (${width}x${height}pt) doesn't fit on page ${page} at ${corner} ${offsetX.toFixed(1)}/${offsetY.toFixed(1)}pt`,
+      );
+    }
+
+    return {
+      ...field,
+      page,
+      x: Math.round(x),
+      y: Math.round(y),
+    } as FieldInput;
+  }
+}
@@ -0,0 +1,123 @@
+import { FetchError, type $Fetch } from "ofetch";
+import { RateLimitError, YouSignApiError } from "./errors";
+import { wrapFetch } from "./fetch";
+import type { RetryOptions } from "./types";
+
+const defaultRetryOptions: Required<Omit<RetryOptions, "onRetry">> = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 30_000,
+  jitter: true,
+  statuses: [408, 425, 429, 500, 502, 503, 504],
+  methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+};
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(signal.reason);
+    }
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Computes how long to wait before the next attempt.
+ * The Retry-After/rate limit headers of a 429 win over the exponential backoff
+ */
+export function getRetryDelay(
+  attempt: number,
+  error: unknown,
+  options: RetryOptions = {},
+): number {
+  const { baseDelay, maxDelay, jitter } = {
+    ...defaultRetryOptions,
+    ...options,
+  };
+
+  if (error instanceof RateLimitError && error.retryAfter !== null) {
+    return error.retryAfter * 1000;
+  }
+
+  const backoff = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+  return jitter ? Math.round(Math.random() * backoff) : backoff;
+}
+
+function isAbort(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+/** The request failed without any response, e.g. the connection was reset or timed out */
+function isNetworkError(error: unknown): boolean {
+  return (
+    error instanceof FetchError && !error.response && !isAbort(error.cause)
+  );
+}
+
+/**
+ * Checks if the failed request may be sent again.
+ * Only errors with a retryable status and network errors are retried, aborted requests and errors thrown
+ * before the request was sent never are. A 429 is retried whatever the method, since the API didn't process the request
+ */
+export function isRetryable(
+  method: string,
+  error: unknown,
+  options: RetryOptions = {},
+): boolean {
+  const { statuses, methods } = { ...defaultRetryOptions, ...options };
+  const retriedMethod = methods.map((m) => m.toUpperCase()).includes(method);
+
+  if (error instanceof YouSignApiError) {
+    return (
+      statuses.includes(error.status) && (retriedMethod || error.status === 429)
+    );
+  }
+  return retriedMethod && isNetworkError(error);
+}
+
+/**
+ * Wraps an ofetch instance so failed requests are retried following the policy
+ * @param fetch ofetch instance, its own retry should be disabled to not retry twice
+ * @param policy retry policy
+ */
+export function withRetry(fetch: $Fetch, policy: RetryOptions = {}): $Fetch {
+  const { maxAttempts } = { ...defaultRetryOptions, ...policy };
+
+  return wrapFetch(fetch, async (request, requestOptions, send) => {
+    const method = (requestOptions?.method ?? "GET").toUpperCase();
+    const endpoint = typeof request === "string" ? request : request.url;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await send(requestOptions);
+      } catch (error) {
+        if (
+          attempt >= maxAttempts ||
+          !isRetryable(method, error, policy) ||
+          requestOptions?.signal?.aborted
+        ) {
+          throw error;
+        }
+
+        const delay = getRetryDelay(attempt, error, policy);
+        await policy.onRetry?.({
+          attempt,
+          maxAttempts,
+          delay,
+          method,
+          endpoint,
+          error,
+        });
+        await sleep(delay, requestOptions?.signal);
+      }
+    }
+  });
+}
@@ -0,0 +1,235 @@
+import type { $Fetch } from "ofetch";
+import { RateLimitError } from "./errors";
+import { wrapFetch } from "./fetch";
+import type { SchedulerMetrics, SchedulerOptions } from "./types";
+
+export class SchedulerQueueFullError extends Error {
+  constructor(maxQueueSize: number) {
+    super(`The request queue is full (${maxQueueSize} requests waiting).`);
+    this.name = "SchedulerQueueFullError";
+  }
+}
+
+/** Token bucket refilled continuously over the window */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(
+    private readonly limit: number,
+    private readonly interval: number,
+  ) {
+    this.tokens = limit;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.limit,
+      this.tokens + ((now - this.updatedAt) * this.limit) / this.interval,
+    );
+    this.updatedAt = now;
+  }
+
+  /** Milliseconds until a token is available, 0 if there is one already */
+  wait(): number {
+    this.refill();
+    return this.tokens >= 1
+      ? 0
+      : Math.ceil(((1 - this.tokens) * this.interval) / this.limit);
+  }
+
+  take() {
+    this.tokens -= 1;
+  }
+}
+
+const priorities: RequestPriority[] = ["high", "auto", "low"];
+
+type Task = {
+  run: () => void;
+};
+
+/**
+ * Queues requests so they never exceed the configured quotas and concurrency.
+ * Requests with a higher priority overtake the ones waiting with a lower priority,
+ * requests with the same priority are sent in order
+ */
+export class RequestScheduler {
+  private readonly buckets: TokenBucket[] = [];
+  private readonly queues: Record<RequestPriority, Task[]> = {
+    high: [],
+    auto: [],
+    low: [],
+  };
+  private readonly listeners = new Set<(metrics: SchedulerMetrics) => void>();
+  private running = 0;
+  private pausedUntil = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly options: SchedulerOptions = {}) {
+    const { perSecond, perMinute, perHour } = options;
+    perSecond && this.buckets.push(new TokenBucket(perSecond, 1000));
+    perMinute && this.buckets.push(new TokenBucket(perMinute, 60_000));
+    perHour && this.buckets.push(new TokenBucket(perHour, 3_600_000));
+    options.onMetrics && this.listeners.add(options.onMetrics);
+  }
+
+  /**
+   * Registers a listener called every time a request gets queued, started or finished
+   * @returns function to remove the listener
+   */
+  subscribe(listener: (metrics: SchedulerMetrics) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  get metrics(): SchedulerMetrics {
+    return {
+      queued: priorities.reduce((sum, p) => sum + this.queues[p].length, 0),
+      running: this.running,
+      queuedByPriority: {
+        high: this.queues.high.length,
+        auto: this.queues.auto.length,
+        low: this.queues.low.length,
+      },
+    };
+  }
+
+  /**
+   * Runs the task as soon as there is a free slot and a token in every quota window
+   * @param task function that sends the request
+   * @param priority `high` overtakes `auto` which overtakes `low`
+   * @param signal aborting it while the task waits removes the task from the queue and rejects with the abort reason
+   * @throws {SchedulerQueueFullError} The queue already holds maxQueueSize requests
+   */
+  schedule<T>(
+    task: () => Promise<T>,
+    priority: RequestPriority = "auto",
+    signal?: AbortSignal | null,
+  ): Promise<T> {
+    const { maxQueueSize = Infinity } = this.options;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    if (this.metrics.queued >= maxQueueSize) {
+      return Promise.reject(new SchedulerQueueFullError(maxQueueSize));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const queue = this.queues[priority];
+      const abort = () => {
+        queue.splice(queue.indexOf(queued), 1);
+        this.notify();
+        reject(signal!.reason);
+      };
+      const queued: Task = {
+        run: () => {
+          signal?.removeEventListener("abort", abort);
+          this.running++;
+          this.notify();
+          task()
+            .then(resolve, (error) => {
+              if (error instanceof RateLimitError && error.retryAfter) {
+                this.pause(error.retryAfter * 1000);
+              }
+              reject(error);
+            })
+            .finally(() => {
+              this.running--;
+              this.notify();
+              this.drain();
+            });
+        },
+      };
+      queue.push(queued);
+      signal?.addEventListener("abort", abort, { once: true });
+      this.notify();
+      this.drain();
+    });
+  }
+
+  /**
+   * Holds back every queued request for the given time, used when the API answered with a 429
+   * @param ms milliseconds to wait
+   */
+  pause(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private next(): Task | undefined {
+    for (const priority of priorities) {
+      if (this.queues[priority].length) {
+        return this.queues[priority].shift();
+      }
+    }
+  }
+
+  private drain() {
+    const { concurrency = 4 } = this.options;
+    while (this.running < concurrency && this.metrics.queued > 0) {
+      const wait = Math.max(
+        this.pausedUntil - Date.now(),
+        ...this.buckets.map((bucket) => bucket.wait()),
+      );
+      if (wait > 0) {
+        if (!this.timer) {
+          this.timer = setTimeout(() => {
+            this.timer = null;
+            this.drain();
+          }, wait);
+        }
+        return;
+      }
+
+      this.buckets.forEach((bucket) => bucket.take());
+      this.next()!.run();
+    }
+  }
+
+  private notify() {
+    if (this.listeners.size) {
+      const metrics = this.metrics;
+      this.listeners.forEach((listener) => listener(metrics));
+    }
+  }
+}
+
+/**
+ * Wraps an ofetch instance so every request goes through the scheduler.
+ * The priority is read from the standard `priority` option of fetch, aborting the `signal` drops a queued request
+ * @param fetch ofetch instance
+ * @param scheduler scheduler, can be shared between multiple instances
+ */
+export function withScheduler(
+  fetch: $Fetch,
+  scheduler: RequestScheduler,
+): $Fetch {
+  return wrapFetch(fetch, (_, options, send) =>
+    scheduler.schedule(() => send(options), options?.priority, options?.signal),
+  );
+}
+
+/**
+ * Get a view of the client whose requests are queued with the given priority by the scheduler,
+ * e.g. to let interactive calls overtake bulk jobs. Without a scheduler the priority is only passed to fetch as hint
+ * @param client client to prioritize the requests of
+ * @param priority `high` overtakes `auto` (default) which overtakes `low`
+ * @returns the same client, sharing hooks and scheduler, with the priority applied to every request
+ *
+ * @example
+ * ```ts
+ * const interactive = withPriority(yousign, "high");
+ * await interactive.getRequests({ q: search });
+ * ```
+ */
+export function withPriority<T extends { readonly fetch: $Fetch }>(
+  client: T,
+  priority: RequestPriority,
+): T {
+  const prioritized = wrapFetch(client.fetch, (_, options, send) =>
+    send({ priority, ...options }),
+  );
+
+  return Object.create(client, { fetch: { value: prioritized } });
+}
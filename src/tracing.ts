@@ -0,0 +1,200 @@
+import type { SpanAttributes, Tracer, TracingSpan } from "./types";
+
+//numeric values of the SpanKind and SpanStatusCode enums of @opentelemetry/api
+const SPAN_KIND_INTERNAL = 0;
+const SPAN_KIND_CLIENT = 2;
+const STATUS_ERROR = 2;
+
+const SIGNATURE_REQUEST_ID = "yousign.signature_request.id";
+const DOCUMENT_SIZE = "yousign.document.size";
+
+/** Placeholders of the ids that follow the collections in the paths of the API */
+const ROUTE_PLACEHOLDERS = new Map([
+  ["signature_requests", "{signatureRequestId}"],
+  ["documents", "{documentId}"],
+  ["signers", "{signerId}"],
+  ["fields", "{fieldId}"],
+  ["approvers", "{approverId}"],
+  ["contacts", "{contactId}"],
+  ["templates", "{templateId}"],
+  ["webhooks", "{webhookId}"],
+]);
+
+const AsyncFunction = (async () => {}).constructor as FunctionConstructor;
+
+/**
+ * Route template of a path of the API, e.g. `/signature_requests/{signatureRequestId}/signers`
+ * @returns the template and the id of the signature request if the path has one
+ */
+function parseRoute(pathname: string) {
+  const segments = pathname.split("/").filter(Boolean);
+  const start = segments.findIndex((segment) =>
+    ROUTE_PLACEHOLDERS.has(segment),
+  );
+  if (start === -1) {
+    return { route: pathname };
+  }
+
+  let signatureRequestId: string | undefined;
+  const route = segments.slice(start).map((segment, i, all) => {
+    const placeholder = ROUTE_PLACEHOLDERS.get(all[i - 1]);
+    //documents/download is the only action right after a collection
+    if (!placeholder || segment === "download") {
+      return segment;
+    }
+    if (all[i - 1] === "signature_requests") {
+      signatureRequestId = decodeURIComponent(segment);
+    }
+    return placeholder;
+  });
+  return { route: `/${route.join("/")}`, signatureRequestId };
+}
+
+/** Parses the URL of a request, null if it's relative and so has no server to report */
+function parseUrl(href: string): URL | null {
+  try {
+    return new URL(href);
+  } catch {
+    return null;
+  }
+}
+
+function recordError(span: TracingSpan, error: unknown) {
+  const exception = error instanceof Error ? error : new Error(String(error));
+  span.recordException(exception);
+  span.setAttribute("error.type", exception.name);
+  span.setStatus({ code: STATUS_ERROR, message: exception.message });
+}
+
+/** Methods whose first argument is the id of something else than a signature request */
+const OTHER_RESOURCES = /Template|Contact|Webhook/;
+
+function methodAttributes(method: string, args: unknown[]): SpanAttributes {
+  const attributes: SpanAttributes = { "code.function": method };
+  if (typeof args[0] === "string" && !OTHER_RESOURCES.test(method)) {
+    attributes[SIGNATURE_REQUEST_ID] = args[0];
+  }
+  return attributes;
+}
+
+/**
+ * Wraps every async method of the client in a span named after the method.
+ * The wrappers are set on the instance, so the spans also cover the hooks of the YouSignClient
+ * @param client client to instrument
+ * @param tracer tracer the spans are started with
+ */
+export function traceMethods(client: object, tracer: Tracer): void {
+  const seen = new Set(["constructor"]);
+  let proto = Object.getPrototypeOf(client);
+  while (proto !== null && proto !== Object.prototype) {
+    for (const key of Object.getOwnPropertyNames(proto)) {
+      //methods overridden further down the chain keep their own implementation
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      const method = Object.getOwnPropertyDescriptor(proto, key)?.value;
+      if (!(method instanceof AsyncFunction)) {
+        continue;
+      }
+
+      Object.defineProperty(client, key, {
+        configurable: true,
+        writable: true,
+        value: function (this: object, ...args: unknown[]) {
+          return tracer.startActiveSpan(
+            `yousign.${key}`,
+            {
+              kind: SPAN_KIND_INTERNAL,
+              attributes: methodAttributes(key, args),
+            },
+            async (span) => {
+              try {
+                const result = await method.apply(this, args);
+                //the id of a created request is only known afterwards
+                if (key.startsWith("createSignatureRequest") && result?.id) {
+                  span.setAttribute(SIGNATURE_REQUEST_ID, result.id);
+                }
+                return result;
+              } catch (error) {
+                recordError(span, error);
+                throw error;
+              } finally {
+                span.end();
+              }
+            },
+          );
+        },
+      });
+    }
+    proto = Object.getPrototypeOf(proto);
+  }
+}
+
+/**
+ * Wraps a fetch so every HTTP request is sent inside a client span with the semantic attributes
+ * of OpenTelemetry: method, URL, route template and status, plus the signature request id and the
+ * size of uploaded and downloaded documents
+ * @param tracer tracer the spans are started with
+ * @param fetch fetch the requests are sent with
+ */
+export function withTracing(
+  tracer: Tracer,
+  fetch: typeof globalThis.fetch = globalThis.fetch,
+): typeof globalThis.fetch {
+  return (input, init) => {
+    const href = input instanceof Request ? input.url : String(input);
+    const url = parseUrl(href);
+    const method = (
+      init?.method ?? (input instanceof Request ? input.method : "GET")
+    ).toUpperCase();
+    const { route, signatureRequestId } = parseRoute(
+      (url ?? new URL(href, "http://localhost")).pathname,
+    );
+
+    const attributes: SpanAttributes = {
+      "http.request.method": method,
+      "http.route": route,
+    };
+    if (url) {
+      attributes["url.full"] = url.toString();
+      attributes["server.address"] = url.hostname;
+    }
+    if (signatureRequestId) {
+      attributes[SIGNATURE_REQUEST_ID] = signatureRequestId;
+    }
+    const file = init?.body instanceof FormData ? init.body.get("file") : null;
+    if (file instanceof Blob) {
+      attributes[DOCUMENT_SIZE] = file.size;
+    }
+
+    return tracer.startActiveSpan(
+      `${method} ${route}`,
+      { kind: SPAN_KIND_CLIENT, attributes },
+      async (span) => {
+        try {
+          const response = await fetch(input, init);
+          span.setAttribute("http.response.status_code", response.status);
+
+          const length = response.headers.get("content-length");
+          if (length !== null) {
+            span.setAttribute("http.response.body.size", Number(length));
+            if (route.endsWith("/download")) {
+              span.setAttribute(DOCUMENT_SIZE, Number(length));
+            }
+          }
+          if (response.status >= 400) {
+            span.setAttribute("error.type", String(response.status));
+            span.setStatus({ code: STATUS_ERROR });
+          }
+          return response;
+        } catch (error) {
+          recordError(span, error);
+          throw error;
+        } finally {
+          span.end();
+        }
+      },
+    );
+  };
+}
@@ -1,3 +1,5 @@
+import type { Hookable } from "hookable";
+import type { RequestScheduler } from "./scheduler";
 import { timezones } from "./timezones";
 
 /** Generic way to make types nullable */
@@ -161,6 +163,44 @@ export type SignatureRequest = {
   branding_id: Nullable<string>;
 };
 
+/** Settings that can be changed on a signature request, only drafts accept all of them */
+export type UpdateSignatureRequestOptions = {
+  name?: string;
+  delivery_mode?: DeliveryMode;
+  ordered_signers?: boolean;
+  reminder_settings?: Nullable<ReminderSettings>;
+  timezone?: SignatureTimezone;
+  expiration_date?: string;
+  external_id?: Nullable<string>;
+  custom_experience_id?: Nullable<string>;
+  audit_trail_locale?: Nullable<AuditTrailLocale>;
+  signers_allowed_to_decline?: boolean;
+  email_notification?: Nullable<{
+    sender: Nullable<EmailNotificationSender>;
+    /** Max length 500 characters */
+    custom_note?: Nullable<string>;
+  }>;
+};
+
+/** Reason why an ongoing signature request gets canceled */
+export type CancelReason =
+  | "contractualization_aborted"
+  | "errors_in_document"
+  | "other";
+
+/** Settings that need to be passed when canceling a signature request */
+export type CancelSignatureRequestOptions = {
+  reason: CancelReason;
+  /** Note sent to the signers, max length 255 characters */
+  custom_note?: Nullable<string>;
+};
+
+/** Settings that need to be passed when reactivating an expired signature request */
+export type ReactivateSignatureRequestOptions = {
+  /** New expiration date, YYYY-MM-DD */
+  expiration_date: string;
+};
+
 type URLFile =
   | string
   | {
@@ -182,6 +222,28 @@ export type AddFileOptions = {
   parse_anchors?: boolean;
 };
 
+/** Settings that can be changed on a document of a draft signature request */
+export type UpdateDocumentOptions = {
+  nature?: "attachment" | "signable_document";
+  /** Id of the document to move this one after, null moves it to the first position */
+  insert_after_id?: Nullable<string>;
+  initials?: Nullable<Record<string, any>>;
+};
+
+/** Options to download all the documents of a signature request */
+export type DownloadDocumentsOptions = {
+  /**
+   * `current` is the last version of the documents, `completed` the signed version once the request is done
+   * @default "current"
+   */
+  version?: "current" | "completed";
+  /**
+   * Download the documents as zip archive, even if there is only one
+   * @default false
+   */
+  archive?: boolean;
+};
+
 /** Response when a file got added to a signature request */
 export type AddFileResponse = {
   id: string;
@@ -225,6 +287,7 @@ export type Mention = {
   /** min 24, or multiple of 15 > 24 */
   width?: Nullable<number>;
   mention: string;
+  font?: Font;
 };
 
 /** Text input options */
@@ -240,6 +303,7 @@ export type Text = {
   question: string;
   instruction: Nullable<string>;
   optional: boolean;
+  font?: Font;
 };
 
 /** Checkbox Input options */
@@ -303,8 +367,7 @@ export type CustomText = {
   reminder_body: Nullable<string>;
 };
 
-type AddSignerScratchOptions = {
-  info: SignerInfo;
+type AddSignerBaseOptions = {
   fields?: FieldInput[];
   insert_after_id?: Nullable<string>;
   signature_level: SignatureLevel;
@@ -315,9 +378,83 @@ type AddSignerScratchOptions = {
   identification_attestation_id?: Nullable<string>;
 };
 
-//TODO add contacts and user options too
+/** Signer whose info is passed with the request */
+export type AddSignerScratchOptions = AddSignerBaseOptions & {
+  info: SignerInfo;
+  contact_id?: never;
+  user_id?: never;
+};
+
+/** Signer whose info is taken from a saved contact */
+export type AddSignerContactOptions = AddSignerBaseOptions & {
+  contact_id: string;
+  info?: never;
+  user_id?: never;
+};
+
+/** Signer whose info is taken from a user of the workspace */
+export type AddSignerUserOptions = AddSignerBaseOptions & {
+  user_id: string;
+  info?: never;
+  contact_id?: never;
+};
+
 /** Settings that need to get passed when adding a Signer to a signature request */
-export type AddSignerOptions = AddSignerScratchOptions;
+export type AddSignerOptions =
+  AddSignerScratchOptions | AddSignerContactOptions | AddSignerUserOptions;
+
+/** Settings that can be changed on a signer, only the passed ones are changed */
+export type UpdateSignerOptions = Partial<
+  Omit<AddSignerScratchOptions, "info" | "contact_id" | "user_id"> & {
+    info: Partial<SignerInfo>;
+  }
+>;
+
+/** Information about who approves the signature request */
+export type ApproverInfo = {
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone_number?: Nullable<string>;
+  locale: SignerLocale;
+};
+
+/** Settings that need to get passed when adding an Approver to a signature request */
+export type AddApproverOptions = {
+  info: ApproverInfo;
+  delivery_mode?: Nullable<DeliveryMode>;
+  custom_text?: Partial<CustomText>;
+  redirect_urls?: Partial<Omit<RedirectUrls, "declined">>;
+};
+
+/** Settings that can be changed on an approver, only the passed ones are changed */
+export type UpdateApproverOptions = Partial<
+  Omit<AddApproverOptions, "info"> & { info: Partial<ApproverInfo> }
+>;
+
+/** Response when an Approver got added to the SignatureRequest */
+export type AddApproverResponse = ApproverInner & {
+  info: ApproverInfo;
+  /** @sensible */
+  approval_link: Nullable<string>;
+  approval_link_expiration_date: Nullable<string>;
+  delivery_mode: Nullable<DeliveryMode>;
+  custom_text: CustomText;
+  redirect_urls: Omit<RedirectUrls, "declined">;
+};
+
+/** Information about an internal stakeholder that gets notified about a signature request without signing it */
+export type FollowerInfo = {
+  email: string;
+  locale: SignerLocale;
+};
+
+/** Follower of a {@link SignatureRequest}, notified about its progress */
+export type Follower = FollowerInfo & {
+  id: string;
+  /** Id of the {@link SignatureRequest} the follower is notified about */
+  signature_request_id: string;
+};
 
 /** Font options for fields */
 export type Font = {
@@ -378,6 +515,13 @@ export type SignerFieldInput =
   | SignerCheckbox
   | SignerRadioGroup;
 
+/** Settings that can be changed on a field, the type and the document can't be changed */
+export type UpdateFieldOptions = FieldInput extends infer F
+  ? F extends FieldInput
+    ? Partial<Omit<F, "type" | "document_id">>
+    : never
+  : never;
+
 /** Response when a Signer got added to the SignatureRequest */
 export type AddSignerResponse = {
   id: string;
@@ -446,12 +590,29 @@ export type SignatureRequestActivateResponse = {
 };
 
 /** Result of the query for signature requests */
-export type SignatureRequestQueryResult = {
+export type SignatureRequestQueryResult = PaginatedResponse<SignatureRequest>;
+
+/** Single page of a list endpoint that uses cursor pagination */
+export type PaginatedResponse<T> = {
   meta: {
-    /** cursor to pass to the `after`fielld in the {@link SignatureRequestQuery} object */
+    /** cursor to pass to the `after` field of the query to get the next page, null on the last page */
     next_cursor: Nullable<string>;
   };
-  data: SignatureRequest[];
+  data: T[];
+};
+
+/** Options to control how far a list endpoint gets iterated */
+export type PaginationOptions = {
+  /** Stop after this many items, across all the pages */
+  maxItems?: number;
+  /** Aborts the request of the current page and stops the iteration */
+  signal?: AbortSignal;
+};
+
+/** Options of a single request */
+export type RequestOptions = {
+  /** Aborts the request */
+  signal?: AbortSignal;
 };
 
 /** Query object to search for signature requests */
@@ -475,6 +636,119 @@ export type SignatureRequestQuery = {
   q: string;
 };
 
+/** Query object to search for templates */
+export type TemplateQuery = {
+  /**
+   * @default 100
+   * @min 1
+   * @max 100
+   */
+  limit: number;
+  /**
+   * After cursor (pagination)
+   */
+  after: string;
+  /**
+   * Search on name
+   */
+  q: string;
+};
+
+/** Signer placeholder of a template, filled in with a concrete signer when creating a request from it */
+export type TemplateSignerPlaceholder = {
+  id: string;
+  label: string;
+};
+
+/** Read only text field of a template, filled in with a value when creating a request from it */
+export type TemplateReadOnlyTextField = {
+  id: string;
+  label: string;
+  document_id: string;
+  page: number;
+  max_length: Nullable<number>;
+};
+
+/** Template stored on YouSign */
+export type Template = {
+  id: string;
+  name: string;
+  description: Nullable<string>;
+  created_at: string;
+  updated_at: Nullable<string>;
+  workspace_id: Nullable<string>;
+  signers: TemplateSignerPlaceholder[];
+  read_only_text_fields: TemplateReadOnlyTextField[];
+  documents: DocumentInner[];
+};
+
+/** Result of the query for templates */
+export type TemplateQueryResult = PaginatedResponse<Template>;
+
+/** Concrete signer that replaces a signer placeholder of a template */
+export type TemplateSignerOptions = {
+  info: SignerInfo;
+  signature_authentication_mode?: Nullable<SignatureAuthMode>;
+  redirect_urls?: Partial<RedirectUrls>;
+  custom_text?: Partial<CustomText>;
+  delivery_mode?: Nullable<DeliveryMode>;
+};
+
+/** Settings that need to be passed when creating a signature request from a template */
+export type CreateFromTemplateOptions = Omit<
+  CreateSignatureRequestOptions,
+  "template_id"
+> & {
+  /** Concrete signers by the label of the placeholder they replace, every placeholder needs one */
+  signers: Record<string, SignerInfo | TemplateSignerOptions>;
+  /** Values by the label of the read only text field they fill in */
+  read_only_text_fields?: Record<string, string>;
+};
+
+/** Settings that need to be passed when creating a contact */
+export type CreateContactOptions = {
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone_number?: Nullable<string>;
+  locale: SignerLocale;
+};
+
+/** Settings that can be changed on a contact, only the passed ones are changed */
+export type UpdateContactOptions = Partial<CreateContactOptions>;
+
+/** Contact saved on YouSign, reusable as signer with its id */
+export type Contact = {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone_number: Nullable<string>;
+  locale: SignerLocale;
+  created_at: string;
+};
+
+/** Query object to search for contacts */
+export type ContactQuery = {
+  /**
+   * @default 100
+   * @min 1
+   * @max 100
+   */
+  limit: number;
+  /**
+   * After cursor (pagination)
+   */
+  after: string;
+  /**
+   * Search on name and email
+   */
+  q: string;
+};
+
+/** Result of the query for contacts */
+export type ContactQueryResult = PaginatedResponse<Contact>;
+
 /** certificate sender info */
 export type SignedSender = {
   id: string;
@@ -561,37 +835,580 @@ export type DocumentInfo = {
   total_anchors: number;
 };
 
+/** Outcome of a single item of a batch call, in the same order as the passed items */
+export type BatchItemResult<T> =
+  | { status: "fulfilled"; index: number; value: T }
+  | { status: "rejected"; index: number; reason: unknown }
+  /** Not attempted because an earlier item failed and `stopOnError` was set */
+  | { status: "skipped"; index: number };
+
+/** Options for the batch calls */
+export type BatchOptions = {
+  /**
+   * Stop at the first failure, the remaining items are reported as skipped
+   * @default false
+   */
+  stopOnError?: boolean;
+};
+
+/** Options for the batch calls that run in parallel */
+export type ConcurrentBatchOptions = BatchOptions & {
+  /**
+   * Items processed at the same time
+   * @default 3
+   */
+  concurrency?: number;
+};
+
+/** Webhook events that concern the signature request as a whole */
+export type SignatureRequestWebhookEventName =
+  | "signature_request.created"
+  | "signature_request.activated"
+  | "signature_request.approved"
+  | "signature_request.rejected"
+  | "signature_request.declined"
+  | "signature_request.done"
+  | "signature_request.expired"
+  | "signature_request.canceled"
+  | "signature_request.deleted"
+  | "signature_request.permanently_deleted"
+  | "signature_request.reactivated"
+  | "signature_request.reminder_executed";
+
+/** Webhook events that concern a single signer of a signature request */
+export type SignerWebhookEventName =
+  | "signer.notified"
+  | "signer.link_opened"
+  | "signer.identification_blocked"
+  | "signer.sender_notified"
+  | "signer.signed"
+  | "signer.done"
+  | "signer.declined"
+  | "signer.error";
+
+/** Webhook events that concern a single approver of a signature request */
+export type ApproverWebhookEventName =
+  | "approver.notified"
+  | "approver.approved"
+  | "approver.rejected";
+
+/** All the events YouSign can send to a webhook endpoint */
+export type WebhookEventName =
+  | SignatureRequestWebhookEventName
+  | SignerWebhookEventName
+  | ApproverWebhookEventName;
+
+type WebhookEventBase<N extends WebhookEventName, D> = {
+  event_id: string;
+  event_name: N;
+  /** Unix timestamp (seconds) of when the event happened */
+  event_time: string;
+  subscription_id: string;
+  subscription_description: Nullable<string>;
+  sandbox: boolean;
+  data: D;
+};
+
+/** Payload of a webhook event about a signature request */
+export type SignatureRequestWebhookEvent = {
+  [N in SignatureRequestWebhookEventName]: WebhookEventBase<
+    N,
+    { signature_request: SignatureRequest }
+  >;
+}[SignatureRequestWebhookEventName];
+
+/** Payload of a webhook event about a signer */
+export type SignerWebhookEvent = {
+  [N in SignerWebhookEventName]: WebhookEventBase<
+    N,
+    { signature_request: SignatureRequest; signer: SignerInner }
+  >;
+}[SignerWebhookEventName];
+
+/** Payload of a webhook event about an approver */
+export type ApproverWebhookEvent = {
+  [N in ApproverWebhookEventName]: WebhookEventBase<
+    N,
+    { signature_request: SignatureRequest; approver: ApproverInner }
+  >;
+}[ApproverWebhookEventName];
+
+/** Any event YouSign sends to a webhook endpoint, discriminated by `event_name` */
+export type WebhookEvent =
+  | SignatureRequestWebhookEvent
+  | SignerWebhookEvent
+  | ApproverWebhookEvent;
+
+/** Hooks of the WebhookReceiver, one per event name plus a catch all `onEvent` */
+export type WebhookHooks = {
+  [E in WebhookEvent as E["event_name"]]: (event: E) => void | Promise<void>;
+} & {
+  onEvent: (event: WebhookEvent) => void | Promise<void>;
+};
+
+/** Settings that need to be passed when creating a webhook subscription */
+export type CreateWebhookOptions = {
+  /** Public https URL YouSign sends the events to */
+  endpoint: string;
+  description?: Nullable<string>;
+  /** Events to receive, `["*"]` subscribes to every event */
+  subscribed_events: WebhookEventName[] | ["*"];
+  /** If true only the events of the sandbox environment are sent */
+  sandbox: boolean;
+  /** Retry the delivery if the endpoint doesn't answer with a 2XX status */
+  auto_retry: boolean;
+  /** @default true */
+  enabled?: boolean;
+  /** Workspace ids to limit the subscription to, `["*"]` for all the workspaces */
+  scopes?: string[];
+};
+
+/** Settings that can be changed on an existing webhook subscription */
+export type UpdateWebhookOptions = Partial<CreateWebhookOptions>;
+
+/** Webhook subscription stored on YouSign */
+export type WebhookSubscription = {
+  id: string;
+  endpoint: string;
+  description: Nullable<string>;
+  subscribed_events: WebhookEventName[] | ["*"];
+  sandbox: boolean;
+  auto_retry: boolean;
+  enabled: boolean;
+  scopes: string[];
+  created_at: string;
+  /** @sensible only returned when the subscription gets created */
+  secret_key?: string;
+};
+
+/** Single field that failed the validation of the API */
+export type ApiViolation = {
+  name: string;
+  reason: string;
+};
+
+/** Problem details body the API answers with when a request fails */
+export type ApiProblem = {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  invalid_params?: ApiViolation[];
+  [key: string]: unknown;
+};
+
 //Typegen for Hooks
 type CapitalizeFirstLetter<S extends string> =
   S extends `${infer First}${infer Rest}` ? `${Uppercase<First>}${Rest}` : S;
 
+//iterators are not awaited by GenHooks, so they get no hooks
 type MethodsOf<T> = {
-  [K in keyof T as T[K] extends (...args: any[]) => any ? K : never]: T[K];
+  [K in keyof T as T[K] extends (...args: any[]) => AsyncIterable<any>
+    ? never
+    : T[K] extends (...args: any[]) => any
+      ? K
+      : never]: T[K];
 };
 
+/** What an onBefore hook can return: new arguments for the method, or a result that skips the call and the onAfter hooks */
+export type BeforeHookOutcome<F extends (...args: any[]) => any> =
+  void | { args: Parameters<F> } | { result: Awaited<ReturnType<F>> };
+
+//method behind a key of MethodsOf, resolved again since mapped keys lose the link to T
+type HookedMethod<T, K> = K extends keyof T
+  ? Extract<T[K], (...args: any[]) => any>
+  : never;
+
 /**Generates all the onBefore hook type for a givven class/object type */
 export type MethodToBeforeEvent<T extends object> = {
   [K in keyof MethodsOf<T> as `onBefore${CapitalizeFirstLetter<K>}`]: (
-    //@ts-expect-error
-    ...args: Parameters<T[K]>
-  ) => void;
+    ...args: Parameters<HookedMethod<T, K>>
+  ) =>
+    | BeforeHookOutcome<HookedMethod<T, K>>
+    | Promise<BeforeHookOutcome<HookedMethod<T, K>>>;
 };
 
-/** Generates the onAfter hook type for a givven class/object type */
+/** Generates the onAfter hook type for a givven class/object type, returning a value replaces the result */
 export type MethodToAfterEvent<T extends object> = {
   [K in keyof MethodsOf<T> as `onAfter${CapitalizeFirstLetter<K>}`]: (
-    //@ts-expect-error
-    data: Awaited<ReturnType<T[K]>>,
-  ) => void;
+    data: Awaited<ReturnType<HookedMethod<T, K>>>,
+    ...args: Parameters<HookedMethod<T, K>>
+  ) =>
+    | void
+    | Awaited<ReturnType<HookedMethod<T, K>>>
+    | Promise<void | Awaited<ReturnType<HookedMethod<T, K>>>>;
+};
+
+/** Generates the onError hook type for a givven class/object type, called before the error is rethrown */
+export type MethodToErrorEvent<T extends object> = {
+  [K in keyof MethodsOf<T> as `onError${CapitalizeFirstLetter<K>}`]: (
+    error: unknown,
+    ...args: Parameters<HookedMethod<T, K>>
+  ) => void | Promise<void>;
 };
 
 /** Generates the types for all the generated Hooks from a class/object type for all the methods/functions in it*/
 export type Hooks<T extends object> = MethodToBeforeEvent<T> &
-  MethodToAfterEvent<T> & {
+  MethodToAfterEvent<T> &
+  MethodToErrorEvent<T> & {
     onError: (error?: Error) => void;
+    onRetry: (info: RetryInfo) => void;
+    onQueueChange: (metrics: SchedulerMetrics) => void;
+    onDownloadProgress: (progress: DownloadProgress) => void;
+    onValidationWarning: (issues: ValidationIssue[]) => void;
   };
 
+/**
+ * Hookable of the client. The generated hooks can return new arguments or results,
+ * which the typing of hookable rejects since it only accepts callbacks returning void
+ */
+export type ClientHookable<T extends Record<string, any>> = Omit<
+  Hookable<T>,
+  "hook" | "hookOnce" | "removeHook"
+> & {
+  hook<N extends keyof T & string>(
+    name: N,
+    hook: T[N],
+    options?: { allowDeprecated?: boolean },
+  ): () => void;
+  hookOnce<N extends keyof T & string>(name: N, hook: T[N]): () => void;
+  removeHook<N extends keyof T & string>(name: N, hook: T[N]): void;
+};
+
+/** Information about a request that is about to be retried */
+export type RetryInfo = {
+  /** Number of the attempt that failed, starting at 1 */
+  attempt: number;
+  maxAttempts: number;
+  /** Milliseconds waited before the next attempt */
+  delay: number;
+  method: string;
+  endpoint: string;
+  error: unknown;
+};
+
+/** Policy on when and how failed requests are sent again */
+export type RetryOptions = {
+  /**
+   * Attempts including the first one, 1 disables the retries
+   * @default 3
+   */
+  maxAttempts?: number;
+  /**
+   * Delay in ms before the first retry, doubled on each further retry
+   * @default 500
+   */
+  baseDelay?: number;
+  /**
+   * Upper bound in ms for the backoff delay, Retry-After headers may exceed it
+   * @default 30000
+   */
+  maxDelay?: number;
+  /**
+   * Randomizes the delay between 0 and the backoff delay, so parallel workers don't retry in sync
+   * @default true
+   */
+  jitter?: boolean;
+  /**
+   * Statuses that get retried, network errors are always retried
+   * @default [408, 425, 429, 500, 502, 503, 504]
+   */
+  statuses?: number[];
+  /**
+   * Methods that get retried. POST and PATCH are not idempotent and can create duplicates (e.g. addDocument),
+   * add them only if you accept that risk. A 429 is retried whatever the method, the API didn't process the request
+   * @default ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]
+   */
+  methods?: string[];
+  /** Called before waiting for each retry */
+  onRetry?: (info: RetryInfo) => void | Promise<void>;
+};
+
+/** Snapshot of the request scheduler queue */
+export type SchedulerMetrics = {
+  /** Requests waiting for a free slot or a token */
+  queued: number;
+  /** Requests currently in flight */
+  running: number;
+  queuedByPriority: Record<RequestPriority, number>;
+};
+
+/** Options of the client side request scheduler that keeps the client within the YouSign quotas */
+export type SchedulerOptions = {
+  /**
+   * Requests in flight at the same time
+   * @default 4
+   */
+  concurrency?: number;
+  /**
+   * Requests that can wait in the queue, further requests are rejected with a SchedulerQueueFullError
+   * @default Infinity
+   */
+  maxQueueSize?: number;
+  /** Requests allowed per second */
+  perSecond?: number;
+  /** Requests allowed per minute */
+  perMinute?: number;
+  /** Requests allowed per hour */
+  perHour?: number;
+  /** Called every time a request gets queued, started or finished */
+  onMetrics?: (metrics: SchedulerMetrics) => void;
+};
+
+/** State of a request passing through the middlewares */
+export type MiddlewareContext = {
+  /** Request about to be sent, its headers can be changed or it can be replaced */
+  request: Request;
+  /** Shared between the middlewares of the same request */
+  state: Record<string, unknown>;
+};
+
+/**
+ * Wraps every HTTP request of the client, including each retry attempt
+ * @param ctx request about to be sent
+ * @param next sends the request through the following middlewares
+ * @returns the response, either the one of next or a replacement
+ */
+export type Middleware = (
+  ctx: MiddlewareContext,
+  next: () => Promise<Response>,
+) => Promise<Response>;
+
+/** Progress of a streamed download */
+export type DownloadProgress = {
+  resource: "document" | "certificate";
+  signatureRequestId: string;
+  /** Id of the document, or of the signer for certificates (null for the merged certificate) */
+  id: Nullable<string>;
+  /** Bytes received so far */
+  loaded: number;
+  /** Size of the download, null if the API didn't send a content-length */
+  total: Nullable<number>;
+};
+
+/** Options of the streamed downloads */
+export type StreamOptions = {
+  /** Called every time a chunk got received */
+  onProgress?: (progress: DownloadProgress) => void;
+  /**
+   * Checks the SHA-256 of the stream while downloading, the stream errors with an IntegrityError if it doesn't match.
+   * `true` compares against the `sha256` of the {@link DocumentInfo}, which takes an extra request to get it,
+   * a string against the passed hash and `false` skips the check. Ignored for certificates since there is no hash to compare to
+   * @default true
+   */
+  verify?: boolean | string;
+};
+
+/** Minimal interface of a Node.js Writable stream (e.g. fs.WriteStream or http.ServerResponse) */
+export type NodeWritableLike = {
+  write(chunk: Uint8Array): boolean;
+  end(callback?: () => void): unknown;
+  once(
+    event: "drain" | "error" | "finish",
+    listener: (...args: any[]) => void,
+  ): unknown;
+};
+
+/** Where a streamed download gets written to, a string is a file path (Node.js, Deno and Bun only) */
+export type DownloadDestination =
+  WritableStream<Uint8Array> | NodeWritableLike | string;
+
+/**
+ * How payloads are validated before they are sent
+ * @value strict: invalid payloads throw a RequestValidationError, nothing is sent
+ * @value warn: the issues are passed to the onValidationWarning option and hook, the payload is sent anyway
+ * @value off: no validation
+ */
+export type ValidationMode = "strict" | "warn" | "off";
+
+/** Single problem found in a payload */
+export type ValidationIssue = {
+  /** Path of the invalid value, e.g. `fields[0].size` */
+  path: string;
+  message: string;
+};
+
+/** Unit of a length, the API works with PDF points (1/72 inch) */
+export type LengthUnit = "pt" | "mm" | "cm" | "in";
+
+/** Size of a page */
+export type PageSize = {
+  width: number;
+  height: number;
+};
+
+/** Page size presets */
+export type PageFormat = "A4" | "Letter";
+
+/** Corner of the page the offsets of a placement are measured from */
+export type PageCorner =
+  "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+/** Fields that are placed with a single x/y, radio groups position every radio themselves */
+export type PlaceableField = Exclude<FieldInput, RadioGroup>;
+
+/** Field to place, without its position */
+export type FieldToPlace = PlaceableField extends infer F
+  ? F extends PlaceableField
+    ? Omit<F, "page" | "x" | "y">
+    : never
+  : never;
+
+/** Where to place a field, the offsets are in the unit of the layout */
+export type Placement = {
+  page: number;
+  /** @default "top-left" */
+  corner?: PageCorner;
+  /** Horizontal distance between the corner and the closest edge of the field */
+  x: number;
+  /** Vertical distance between the corner and the closest edge of the field */
+  y: number;
+};
+
+/** Where to start a row or column of fields */
+export type StackPlacement = Placement & {
+  /**
+   * Space between two fields, in the unit of the layout
+   * @default 0
+   */
+  gap?: number;
+};
+
+/** Options of a PageLayout */
+export type PageLayoutOptions = {
+  /**
+   * Unit of the page size, offsets and gaps. Sizes of the fields are always in points
+   * @default "pt"
+   */
+  unit?: LengthUnit;
+};
+
+/** Field types a smart anchor can create */
+export type AnchorFieldType =
+  "signature" | "mention" | "text" | "checkbox" | "radio";
+
+/** Smart anchor found in a PDF, e.g. `{{s1|signature|85|37}}` */
+export type SmartAnchor = {
+  tag: string;
+  /** Starts at 1 */
+  page: number;
+  /** Left of the tag in points, from the left of the page */
+  x: number;
+  /** Top of the tag in points, from the top of the page like the fields */
+  y: number;
+  /** Index of the signer the field is for, starts at 1 */
+  signer: number;
+  type: AnchorFieldType;
+  width: number;
+  height: number;
+};
+
+/** Tag that YouSign won't be able to turn into a field */
+export type AnchorIssue = {
+  tag: string;
+  page: number;
+  x: number;
+  y: number;
+  /**
+   * @value malformed: the tag doesn't follow the `{{s<signer>|<type>|<width>|<height>}}` syntax
+   * @value unknown_signer: the signer index is higher than the number of signers
+   */
+  reason: "malformed" | "unknown_signer";
+  message: string;
+};
+
+/** Options of the anchor scan */
+export type AnchorScanOptions = {
+  /** Number of signers that will be added, anchors for other signer indexes are reported as issues */
+  signers?: number;
+};
+
+/** Anchors and issues found in a PDF */
+export type AnchorScanResult = {
+  pages: number;
+  anchors: SmartAnchor[];
+  issues: AnchorIssue[];
+};
+
+/** Attributes of a span, keyed by their semantic convention name */
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/** Subset of the OpenTelemetry Span the client uses */
+export type TracingSpan = {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  end(): void;
+};
+
+/** Subset of the OpenTelemetry Tracer the client uses, `trace.getTracer(name)` of `@opentelemetry/api` matches it */
+export type Tracer = {
+  startActiveSpan<F extends (span: TracingSpan) => unknown>(
+    name: string,
+    options: { kind?: number; attributes?: SpanAttributes },
+    fn: F,
+  ): ReturnType<F>;
+};
+
+/** Whether the requests go to the API and get written down, or are answered from the written fixtures */
+export type FixtureMode = "record" | "replay";
+
+/** Where the fixtures are stored and what is removed from them */
+export type FixtureOptions = {
+  mode: FixtureMode;
+  /** JSON file the interactions are written to, or read from when replaying */
+  path: string;
+  /** Additional JSON properties whose values are replaced before writing, the API key, secret keys and the tokens of the links are always redacted */
+  redact?: string[];
+};
+
+/** Request as stored in a fixture, the body of multipart requests lists the files by hash */
+export type FixtureRequest = {
+  method: string;
+  /** Path and sorted query, without the origin */
+  path: string;
+  body?: unknown;
+};
+
+export type FixtureResponse = {
+  status: number;
+  headers: Record<string, string>;
+  body?: unknown;
+  /** How the body is stored, binary bodies like documents are base64 encoded */
+  encoding: "json" | "text" | "base64";
+};
+
+export type FixtureInteraction = {
+  request: FixtureRequest;
+  response: FixtureResponse;
+};
+
+/** Content of a fixture file */
+export type FixtureFile = {
+  version: 1;
+  interactions: FixtureInteraction[];
+};
+
 /** Options to be passed to the BaseClient or YouSignClient constructor */
 export type ClientOptions = {
   environment: "sandbox" | "production";
+  /** Overrides the URL of the environment, e.g. to point the client at a mock server */
+  baseURL?: string;
+  /** Fetch implementation the requests are sent with, defaults to the global fetch */
+  fetch?: typeof globalThis.fetch;
+  /** Records the interactions with the API into a fixture file, or replays them without a network */
+  fixtures?: FixtureOptions;
+  /** Traces every method and HTTP request, nothing is traced without it */
+  tracer?: Tracer;
+  /** Retry policy for failed requests, if not set only the default retry of ofetch applies */
+  retry?: RetryOptions;
+  /** Queues the requests to stay within the quotas, pass the same scheduler to share it between clients */
+  scheduler?: SchedulerOptions | RequestScheduler;
+  /**
+   * Validation of the payloads before they are sent
+   * @default "warn"
+   */
+  validation?: ValidationMode;
+  /** Called with the issues of an invalid payload in warn mode, before it's sent */
+  onValidationWarning?: (issues: ValidationIssue[]) => void;
 };
@@ -0,0 +1,355 @@
+import { RequestValidationError } from "./errors";
+import type {
+  AddApproverOptions,
+  AddSignerOptions,
+  CancelSignatureRequestOptions,
+  CreateContactOptions,
+  CreateSignatureRequestOptions,
+  FieldInput,
+  FollowerInfo,
+  Font,
+  Nullable,
+  SignerInfo,
+  UpdateApproverOptions,
+  UpdateContactOptions,
+  UpdateFieldOptions,
+  UpdateSignatureRequestOptions,
+  UpdateSignerOptions,
+  ValidationIssue,
+  ValidationMode,
+} from "./types";
+
+const E164 = /^\+[1-9]\d{6,14}$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+/** Collects the issues of a payload, paths are built relative to the prefix */
+class Issues {
+  constructor(
+    private readonly prefix = "",
+    readonly list: ValidationIssue[] = [],
+  ) {}
+
+  /** Issues nested under the path, sharing the same list */
+  at(path: string): Issues {
+    return new Issues(this.path(path), this.list);
+  }
+
+  add(path: string, message: string) {
+    this.list.push({ path: this.path(path), message });
+  }
+
+  range(
+    path: string,
+    value: Nullable<number> | undefined,
+    min: number,
+    max: number,
+  ) {
+    if (value !== undefined && value !== null && (value < min || value > max)) {
+      this.add(path, `must be between ${min} and ${max}, got ${value}`);
+    }
+  }
+
+  maxLength(path: string, value: Nullable<string> | undefined, max: number) {
+    if (value && value.length > max) {
+      this.add(path, `must be at most ${max} characters, got ${value.length}`);
+    }
+  }
+
+  matches(
+    path: string,
+    value: Nullable<string> | undefined,
+    regex: RegExp,
+    message: string,
+  ) {
+    if (value !== undefined && value !== null && !regex.test(value)) {
+      this.add(path, message);
+    }
+  }
+
+  private path(path: string) {
+    if (!this.prefix) {
+      return path;
+    }
+    return path.startsWith("[")
+      ? `${this.prefix}${path}`
+      : `${this.prefix}.${path}`;
+  }
+}
+
+function checkEmail(issues: Issues, email: string | undefined) {
+  issues.matches("email", email, EMAIL, "must be a valid email address");
+}
+
+function checkPhone(issues: Issues, phone: Nullable<string> | undefined) {
+  issues.matches(
+    "phone_number",
+    phone,
+    E164,
+    "must be in E.164 format, e.g. +33612345678",
+  );
+}
+
+function checkFont(issues: Issues, font: Partial<Font> | undefined) {
+  if (!font) {
+    return;
+  }
+  issues.range("size", font.size, 8, 22);
+  issues.matches(
+    "color",
+    font.color,
+    HEX_COLOR,
+    "must be a hex color, e.g. #000000",
+  );
+}
+
+function checkPosition(
+  issues: Issues,
+  field: { page?: number; x?: number; y?: number },
+) {
+  if (field.page !== undefined && field.page < 1) {
+    issues.add("page", `must be at least 1, got ${field.page}`);
+  }
+  if (field.x !== undefined && field.x < 0) {
+    issues.add("x", `must be positive, got ${field.x}`);
+  }
+  if (field.y !== undefined && field.y < 0) {
+    issues.add("y", `must be positive, got ${field.y}`);
+  }
+}
+
+function checkField(issues: Issues, field: FieldInput | UpdateFieldOptions) {
+  checkPosition(issues, field as { page?: number; x?: number; y?: number });
+
+  if ("size" in field) {
+    issues.range("size", field.size, 8, 30);
+  }
+  if ("radios" in field && field.radios) {
+    if (!field.radios.length) {
+      issues.add("radios", "must contain at least one radio");
+    }
+    field.radios.forEach((radio, i) => {
+      const radioIssues = issues.at(`radios[${i}]`);
+      checkPosition(radioIssues, radio);
+      radioIssues.range("size", radio.size, 8, 30);
+    });
+  }
+  if ("mention" in field && "width" in field) {
+    const { width } = field;
+    if (
+      width !== undefined &&
+      width !== null &&
+      width !== 24 &&
+      !(width > 24 && width % 15 === 0)
+    ) {
+      issues.add(
+        "width",
+        `must be 24 or a multiple of 15 above 24, got ${width}`,
+      );
+    }
+  }
+  if (
+    "max_length" in field &&
+    field.max_length !== undefined &&
+    field.max_length < 1
+  ) {
+    issues.add("max_length", `must be at least 1, got ${field.max_length}`);
+  }
+  if ("font" in field) {
+    checkFont(issues.at("font"), field.font);
+  }
+}
+
+function checkFields(issues: Issues, fields: FieldInput[] | undefined) {
+  fields?.forEach((field, i) => checkField(issues.at(`fields[${i}]`), field));
+}
+
+function checkEmailNotification(
+  issues: Issues,
+  options: Pick<CreateSignatureRequestOptions, "email_notification">,
+) {
+  issues.maxLength(
+    "email_notification.custom_note",
+    options.email_notification?.custom_note,
+    500,
+  );
+  const sender = options.email_notification?.sender;
+  if (sender?.type === "custom" && !sender.custom_name) {
+    issues.add(
+      "email_notification.sender.custom_name",
+      "is required for custom senders",
+    );
+  }
+}
+
+/** Validates the options to create a signature request */
+export function validateCreateSignatureRequest(
+  options: Partial<CreateSignatureRequestOptions>,
+): ValidationIssue[] {
+  const issues = new Issues();
+  if (!options.name?.trim()) {
+    issues.add("name", "is required");
+  }
+  issues.maxLength("name", options.name, 128);
+  issues.matches(
+    "expiration_date",
+    options.expiration_date,
+    DATE,
+    "must be a date in the YYYY-MM-DD format",
+  );
+  checkEmailNotification(issues, options);
+  return issues.list;
+}
+
+/** Validates the options to update a signature request */
+export function validateUpdateSignatureRequest(
+  options: UpdateSignatureRequestOptions,
+): ValidationIssue[] {
+  const issues = new Issues();
+  if (options.name !== undefined && !options.name.trim()) {
+    issues.add("name", "must not be empty");
+  }
+  issues.maxLength("name", options.name, 128);
+  issues.matches(
+    "expiration_date",
+    options.expiration_date,
+    DATE,
+    "must be a date in the YYYY-MM-DD format",
+  );
+  checkEmailNotification(issues, options);
+  return issues.list;
+}
+
+/** Validates the options to cancel a signature request */
+export function validateCancelSignatureRequest(
+  options: CancelSignatureRequestOptions,
+): ValidationIssue[] {
+  const issues = new Issues();
+  issues.maxLength("custom_note", options.custom_note, 255);
+  return issues.list;
+}
+
+function checkSignerInfo(
+  issues: Issues,
+  info: Partial<SignerInfo> | undefined,
+) {
+  if (info) {
+    const infoIssues = issues.at("info");
+    checkEmail(infoIssues, info.email);
+    checkPhone(infoIssues, info.phone_number);
+  }
+}
+
+function requirePhone(issues: Issues) {
+  issues.add(
+    "info.phone_number",
+    "is required when signature_authentication_mode is otp_sms",
+  );
+}
+
+/** Validates the options to add a signer, including its fields */
+export function validateSigner(options: AddSignerOptions): ValidationIssue[] {
+  const issues = new Issues();
+  checkSignerInfo(issues, options.info);
+  //signers taken from a contact or a user get their phone number from there
+  if (
+    options.signature_authentication_mode === "otp_sms" &&
+    options.info &&
+    !options.info.phone_number
+  ) {
+    requirePhone(issues);
+  }
+  checkFields(issues, options.fields);
+  return issues.list;
+}
+
+/** Validates the settings to update on a signer, the phone number is only checked if it's changed */
+export function validateUpdateSigner(
+  options: UpdateSignerOptions,
+): ValidationIssue[] {
+  const issues = new Issues();
+  const info = options.info;
+  checkSignerInfo(issues, info);
+  if (
+    options.signature_authentication_mode === "otp_sms" &&
+    info &&
+    "phone_number" in info &&
+    !info.phone_number
+  ) {
+    requirePhone(issues);
+  }
+  checkFields(issues, options.fields);
+  return issues.list;
+}
+
+/** Validates the options to add an approver */
+export function validateApprover(
+  options: AddApproverOptions | UpdateApproverOptions,
+): ValidationIssue[] {
+  const issues = new Issues();
+  if (options.info) {
+    const infoIssues = issues.at("info");
+    checkEmail(infoIssues, options.info.email);
+    checkPhone(infoIssues, options.info.phone_number);
+  }
+  return issues.list;
+}
+
+/** Validates the options to create or update a contact */
+export function validateContact(
+  options: CreateContactOptions | UpdateContactOptions,
+): ValidationIssue[] {
+  const issues = new Issues();
+  checkEmail(issues, options.email);
+  checkPhone(issues, options.phone_number);
+  return issues.list;
+}
+
+/** Validates the followers to add to a signature request */
+export function validateFollowers(
+  followers: FollowerInfo[],
+): ValidationIssue[] {
+  const issues = new Issues();
+  followers.forEach((follower, i) =>
+    checkEmail(issues.at(`[${i}]`), follower.email),
+  );
+  return issues.list;
+}
+
+/** Validates a field to add or the settings to update on a field */
+export function validateField(
+  field: FieldInput | UpdateFieldOptions,
+): ValidationIssue[] {
+  const issues = new Issues();
+  checkField(issues, field);
+  return issues.list;
+}
+
+/** Validates the pagination of a list query */
+export function validateQuery(query: { limit?: number }): ValidationIssue[] {
+  const issues = new Issues();
+  issues.range("limit", query.limit, 1, 100);
+  return issues.list;
+}
+
+/**
+ * Applies the validation mode to the issues found in a payload
+ * @param mode strict throws, warn passes the issues to onWarning, off ignores them
+ * @param issues issues found by one of the validate functions
+ * @param onWarning called with the issues in warn mode
+ * @throws {RequestValidationError} The mode is strict and there are issues
+ */
+export function enforceValidation(
+  mode: ValidationMode,
+  issues: ValidationIssue[],
+  onWarning?: (issues: ValidationIssue[]) => void,
+): void {
+  if (mode === "off" || !issues.length) {
+    return;
+  }
+  if (mode === "strict") {
+    throw new RequestValidationError(issues);
+  }
+  onWarning?.(issues);
+}
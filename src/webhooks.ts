@@ -0,0 +1,236 @@
+/**
+ * @module
+ *
+ * Receiver for the YouSign webhooks, verifies the `X-Yousign-Signature-256` header
+ * and dispatches the typed events to the registered hooks
+ *
+ * @example
+ * ```ts
+ * import { WebhookReceiver } from "yousign-v3-client/webhooks";
+ *
+ * const receiver = new WebhookReceiver(process.env.YOUSIGN_WEBHOOK_SECRET);
+ *
+ * receiver.hooks.hook("signature_request.done", async (event) => {
+ *   console.log("Signed: ", event.data.signature_request.id);
+ * });
+ *
+ * receiver.hooks.hook("signer.declined", async (event) => {
+ *   console.log("Declined by: ", event.data.signer.id);
+ * });
+ *
+ * //works with every framework based on the standard Request/Response objects
+ * export const POST = (request: Request) => receiver.handle(request);
+ * ```
+ */
+
+import { createHooks, type Hookable } from "hookable";
+import type { WebhookEvent, WebhookHooks } from "./types";
+
+/** Name of the header YouSign uses to send the HMAC of the body */
+export const SIGNATURE_HEADER = "X-Yousign-Signature-256";
+
+export class InvalidWebhookSignature extends Error {
+  constructor() {
+    super("The webhook signature is missing or invalid.");
+    this.name = "InvalidWebhookSignature";
+  }
+}
+
+export class InvalidWebhookPayload extends Error {
+  constructor(reason: string) {
+    super(`The webhook payload is invalid: ${reason}`);
+    this.name = "InvalidWebhookPayload";
+  }
+}
+
+type WebhookPayload = string | ArrayBuffer | Uint8Array;
+
+/** The hooks named after the events, typed by the union since the name only narrows the event at runtime */
+type EventNameHooks = Record<
+  WebhookEvent["event_name"],
+  (event: WebhookEvent) => void | Promise<void>
+>;
+
+const encoder = new TextEncoder();
+
+function toBytes(payload: WebhookPayload): Uint8Array {
+  if (typeof payload === "string") {
+    return encoder.encode(payload);
+  }
+  return payload instanceof Uint8Array ? payload : new Uint8Array(payload);
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Compares two strings without short circuiting on the first difference,
+ * so the time taken doesn't leak how much of the signature was correct
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ (right[i % right.length] ?? 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Computes the hex encoded HMAC SHA-256 of the payload, the same way YouSign does it
+ * @param payload raw body of the webhook request
+ * @param secret secret of the webhook subscription
+ */
+export async function computeWebhookSignature(
+  payload: WebhookPayload,
+  secret: string,
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    toBytes(payload) as BufferSource,
+  );
+  return toHex(signature);
+}
+
+/**
+ * Checks the `X-Yousign-Signature-256` header against the raw body of the request
+ * @param payload raw body of the webhook request, it must not be parsed and serialized again
+ * @param signature value of the header, with or without the `sha256=` prefix
+ * @param secret secret of the webhook subscription
+ * @returns true if the signature matches
+ */
+export async function verifyWebhookSignature(
+  payload: WebhookPayload,
+  signature: string | null | undefined,
+  secret: string,
+): Promise<boolean> {
+  if (!signature) {
+    return false;
+  }
+  const expected = await computeWebhookSignature(payload, secret);
+  const received = signature.trim().replace(/^sha256=/i, "").toLowerCase();
+  return timingSafeEqual(expected, received);
+}
+
+/**
+ * Parses the body of a webhook request into a typed event
+ * @param payload raw body of the webhook request
+ * @throws {InvalidWebhookPayload} The body is not JSON or not a YouSign event
+ */
+export function parseWebhookEvent(payload: WebhookPayload): WebhookEvent {
+  const body =
+    typeof payload === "string"
+      ? payload
+      : new TextDecoder().decode(toBytes(payload));
+
+  let event: WebhookEvent;
+  try {
+    event = JSON.parse(body);
+  } catch {
+    throw new InvalidWebhookPayload("body is not valid JSON");
+  }
+
+  if (typeof event !== "object" || event === null) {
+    throw new InvalidWebhookPayload("body is not an object");
+  }
+  if (typeof event.event_name !== "string") {
+    throw new InvalidWebhookPayload("missing event_name");
+  }
+  if (typeof event.data !== "object" || event.data === null) {
+    throw new InvalidWebhookPayload("missing data");
+  }
+
+  return event;
+}
+
+/**
+ * Verifies and parses a webhook request in one step
+ * @throws {InvalidWebhookSignature} The signature doesn't match the body
+ * @throws {InvalidWebhookPayload} The body is not a YouSign event
+ */
+export async function constructWebhookEvent(
+  payload: WebhookPayload,
+  signature: string | null | undefined,
+  secret: string,
+): Promise<WebhookEvent> {
+  if (!(await verifyWebhookSignature(payload, signature, secret))) {
+    throw new InvalidWebhookSignature();
+  }
+  return parseWebhookEvent(payload);
+}
+
+/**
+ * Receives the webhooks sent by YouSign and calls the hooks registered for the event.
+ * Every event triggers the hook with its name (e.g. `signature_request.done`) and `onEvent`
+ */
+export class WebhookReceiver {
+  readonly hooks: Hookable<WebhookHooks> = createHooks<WebhookHooks>();
+
+  /**
+   * @param secret secret of the webhook subscription, shown in the YouSign app or returned when creating the subscription
+   */
+  constructor(private readonly secret: string) {
+    if (!secret) {
+      throw new Error("Webhook secret is required and not provided");
+    }
+  }
+
+  /**
+   * Verifies and parses the payload, then calls the hooks for the event
+   * @throws {InvalidWebhookSignature} The signature doesn't match the body
+   * @throws {InvalidWebhookPayload} The body is not a YouSign event
+   */
+  async receive(
+    payload: WebhookPayload,
+    signature: string | null | undefined,
+  ): Promise<WebhookEvent> {
+    const event = await constructWebhookEvent(payload, signature, this.secret);
+
+    await this.hooks.callHook("onEvent", event);
+    await (this.hooks as Hookable<EventNameHooks>).callHook(
+      event.event_name,
+      event,
+    );
+
+    return event;
+  }
+
+  /**
+   * Handles a standard Request and answers with the Response YouSign expects.
+   * 401 if the signature is invalid, 400 if the body is malformed and 500 if a hook throws,
+   * so YouSign retries the delivery later
+   */
+  async handle(request: Request): Promise<Response> {
+    if (request.method !== "POST") {
+      return new Response(null, { status: 405 });
+    }
+
+    //the signature covers the bytes as sent, decoding them first could alter the body
+    const payload = new Uint8Array(await request.arrayBuffer());
+    try {
+      await this.receive(payload, request.headers.get(SIGNATURE_HEADER));
+    } catch (error) {
+      if (error instanceof InvalidWebhookSignature) {
+        return new Response(error.message, { status: 401 });
+      }
+      if (error instanceof InvalidWebhookPayload) {
+        return new Response(error.message, { status: 400 });
+      }
+      return new Response(null, { status: 500 });
+    }
+
+    return new Response(null, { status: 204 });
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { runBatch } from "../src/batch";
+
+describe("runBatch", () => {
+  it("keeps the order of the items", async () => {
+    const results = await runBatch(
+      [30, 10, 20],
+      (delay) => new Promise((resolve) => setTimeout(resolve, delay, delay)),
+      { concurrency: 2 },
+    );
+    expect(results.map((result) => result.status)).toEqual([
+      "fulfilled",
+      "fulfilled",
+      "fulfilled",
+    ]);
+    expect(results.map((result) => "value" in result && result.value)).toEqual([
+      30, 10, 20,
+    ]);
+  });
+
+  it("skips the remaining items after a failure with stopOnError", async () => {
+    const results = await runBatch(
+      [1, 2, 3],
+      async (item) => {
+        if (item === 1) {
+          throw new Error("failed");
+        }
+        return item;
+      },
+      { concurrency: 1, stopOnError: true },
+    );
+    expect(results.map((result) => result.status)).toEqual([
+      "rejected",
+      "skipped",
+      "skipped",
+    ]);
+  });
+
+  it.each([0, -1, 1.5, NaN])(
+    "rejects a concurrency of %s with a RangeError",
+    async (concurrency) => {
+      await expect(
+        runBatch([1], async (item) => item, { concurrency }),
+      ).rejects.toBeInstanceOf(RangeError);
+    },
+  );
+});
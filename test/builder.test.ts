@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import {
+  NotFoundError,
+  SignatureRequestBuilder,
+  YouSignApiError,
+  YouSignClient,
+  type BuilderFailure,
+  type BuilderSuccess,
+} from "../src/index";
+import { MockYouSignServer } from "../src/mock";
+import type { AddSignerOptions } from "../src/types";
+
+const contract = new File(["%PDF-1.4\n%contract\n"], "contract.pdf", {
+  type: "application/pdf",
+});
+const annex = new File(["%PDF-1.4\n%annex\n"], "annex.pdf", {
+  type: "application/pdf",
+});
+
+const signer: AddSignerOptions = {
+  signature_level: "electronic_signature",
+  info: {
+    first_name: "Jane",
+    last_name: "Doe",
+    email: "jane@example.com",
+    phone_number: null,
+    locale: "en",
+  },
+  fields: [{ type: "signature", document_id: "annex", page: 1, x: 10, y: 10 }],
+};
+
+/**
+ * Client of a mock server whose matching requests fail with a 500.
+ * `forward` still lets the server handle the request, so only the response is lost
+ */
+function failing(
+  fails: (request: Request) => boolean,
+  { forward = false } = {},
+) {
+  const server = new MockYouSignServer();
+  const sent: Request[] = [];
+  const yousign = new YouSignClient("test", {
+    ...server.clientOptions,
+    fetch: async (input, init) => {
+      const request = new Request(input, init);
+      sent.push(request.clone());
+      if (!fails(request)) {
+        return server.fetch(request);
+      }
+      forward && (await server.fetch(request));
+      return Response.json(
+        { detail: "Injected failure" },
+        {
+          status: 500,
+          headers: { "content-type": "application/problem+json" },
+        },
+      );
+    },
+  });
+  return { yousign, sent };
+}
+
+const builder = (yousign: YouSignClient) =>
+  new SignatureRequestBuilder(yousign, {
+    name: "Contract",
+    delivery_mode: "none",
+  })
+    .addDocument("contract", { file: contract, nature: "signable_document" })
+    .addDocument("annex", {
+      file: annex,
+      nature: "signable_document",
+      insert_after_id: "contract",
+    })
+    .addSigner(signer);
+
+const isPost = (request: Request, path: RegExp) =>
+  request.method === "POST" && path.test(new URL(request.url).pathname);
+
+describe("SignatureRequestBuilder", () => {
+  it("resolves the document references of the fields and documents", async () => {
+    const { yousign, sent } = failing(() => false);
+
+    const result = (await builder(yousign).send()) as BuilderSuccess;
+    expect(result.ok).toBe(true);
+    const { contract, annex } = result.documents;
+    expect(result.signatureRequest.status).toBe("ongoing");
+
+    const uploads = sent.filter((request) => isPost(request, /\/documents$/));
+    expect((await uploads[1].formData()).get("insert_after_id")).toBe(
+      contract.id,
+    );
+    const [addSigner] = sent.filter((request) => isPost(request, /\/signers$/));
+    expect((await addSigner.json()).fields).toEqual([
+      { type: "signature", document_id: annex.id, page: 1, x: 10, y: 10 },
+    ]);
+    expect(result.signers[0].fields).toMatchObject([{ document_id: annex.id }]);
+  });
+
+  it("deletes the draft if a step fails before the activation", async () => {
+    const { yousign } = failing((request) => isPost(request, /\/signers$/));
+
+    const result = (await builder(yousign).send()) as BuilderFailure;
+    expect(result).toMatchObject({
+      ok: false,
+      step: "signers",
+      rollback: "deleted",
+    });
+    expect(result.error).toBeInstanceOf(YouSignApiError);
+    await expect(
+      yousign.getSignatureRequest(result.signatureRequestId!),
+    ).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it("cancels the request if the activation went through but failed", async () => {
+    const { yousign } = failing((request) => isPost(request, /\/activate$/), {
+      forward: true,
+    });
+
+    const result = (await builder(yousign).send()) as BuilderFailure;
+    expect(result).toMatchObject({
+      ok: false,
+      step: "activate",
+      rollback: "canceled",
+    });
+    const { status } = await yousign.getSignatureRequest(
+      result.signatureRequestId!,
+    );
+    expect(status).toBe("canceled");
+  });
+
+  it("reports a rollback that failed too", async () => {
+    const { yousign } = failing(
+      (request) =>
+        isPost(request, /\/documents$/) ||
+        request.method === "GET" ||
+        request.method === "DELETE",
+    );
+
+    const result = (await builder(yousign).send()) as BuilderFailure;
+    expect(result).toMatchObject({
+      ok: false,
+      step: "documents",
+      rollback: "failed",
+    });
+    expect(result.rollbackError).toBeInstanceOf(YouSignApiError);
+  });
+});
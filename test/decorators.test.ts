@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { NotFoundError, YouSignClient } from "../src/index";
+
+function clientAnswering(status: number, body: object) {
+  return new YouSignClient("test", {
+    environment: "sandbox",
+    fetch: async () =>
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { "content-type": "application/json" },
+      }),
+  });
+}
+
+describe("GenHooks", () => {
+  it("lets the hooks change the arguments and the result", async () => {
+    const yousign = clientAnswering(200, { id: "request", name: "Contract" });
+    yousign.hooks.hook("onBeforeGetSignatureRequest", () => ({
+      args: ["other"],
+    }));
+    yousign.hooks.hook("onAfterGetSignatureRequest", (result, id) => ({
+      ...result,
+      name: `${result.name} ${id}`,
+    }));
+
+    const request = await yousign.getSignatureRequest("request");
+    expect(request.name).toBe("Contract other");
+  });
+
+  it("rethrows the error of the method when an onError hook throws", async () => {
+    const yousign = clientAnswering(404, { detail: "Not found" });
+    const hookError = new Error("hook failed");
+    yousign.hooks.hook("onErrorGetSignatureRequest", () => {
+      throw hookError;
+    });
+
+    const error = await yousign.getSignatureRequest("request").catch((e) => e);
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.cause).toBeInstanceOf(AggregateError);
+    expect(error.cause.errors[1]).toBe(hookError);
+  });
+
+  it("doesn't call the onError hooks for errors of the other hooks", async () => {
+    const yousign = clientAnswering(200, { id: "request" });
+    const hookError = new Error("hook failed");
+    const errors: unknown[] = [];
+    yousign.hooks.hook("onBeforeGetSignatureRequest", () => {
+      throw hookError;
+    });
+    yousign.hooks.hook("onErrorGetSignatureRequest", (error) => {
+      errors.push(error);
+    });
+
+    await expect(yousign.getSignatureRequest("request")).rejects.toBe(
+      hookError,
+    );
+    expect(errors).toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+import { createWriteStream } from "node:fs";
+import { mkdtemp, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import { writeStream } from "../src/download";
+import {
+  EmptyDownloadError,
+  IntegrityError,
+  NotFoundError,
+  YouSignClient,
+} from "../src/index";
+import { MockYouSignServer } from "../src/mock";
+
+describe("download errors", () => {
+  it("reads the problem details of a failed blob or stream download", async () => {
+    const server = new MockYouSignServer();
+    const yousign = new YouSignClient("test", server.clientOptions);
+    const request = await yousign.createSignatureRequest({
+      name: "Contract",
+      delivery_mode: "none",
+    });
+
+    for (const download of [
+      () => yousign.getDocument(request.id, "missing"),
+      () => yousign.streamDocument(request.id, "missing", { verify: false }),
+    ]) {
+      const error = await download().catch((e) => e);
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error.problem).toMatchObject({
+        detail: "Document missing not found",
+      });
+      expect(error.message).toContain(": Document missing not found");
+    }
+  });
+});
+
+describe("streamDocument", () => {
+  it("throws an EmptyDownloadError if the API answers without a body", async () => {
+    const requests: string[] = [];
+    const yousign = new YouSignClient("test", {
+      environment: "sandbox",
+      fetch: async (input) => {
+        requests.push(String(input instanceof Request ? input.url : input));
+        return new Response(null, { status: 204 });
+      },
+    });
+
+    await expect(
+      yousign.streamDocument("request", "document", { verify: false }),
+    ).rejects.toBeInstanceOf(EmptyDownloadError);
+    //without verify, the hash of the document isn't fetched
+    expect(requests).toEqual([
+      "https://api-sandbox.yousign.app/v3/signature_requests/request/documents/document/download",
+    ]);
+  });
+});
+
+const pdf = new File(["%PDF-1.4\n%%EOF\n"], "contract.pdf", {
+  type: "application/pdf",
+});
+
+async function read(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+describe("streamDocument verification", () => {
+  it("checks the SHA-256 of the document by default", async () => {
+    const server = new MockYouSignServer();
+    let tampered = false;
+    const yousign = new YouSignClient("test", {
+      ...server.clientOptions,
+      fetch: async (input, init) => {
+        const response = await server.fetch(input, init);
+        const url = input instanceof Request ? input.url : String(input);
+        //the download answers with another body than the one uploaded
+        return tampered && url.endsWith("/download")
+          ? new Response("%PDF-1.4\n%%EOF\n%tampered\n", response)
+          : response;
+      },
+    });
+    const request = await yousign.createSignatureRequest({
+      name: "Contract",
+      delivery_mode: "none",
+    });
+    const document = await yousign.addDocument(request.id, {
+      file: pdf,
+      nature: "signable_document",
+    });
+
+    expect(
+      await read(await yousign.streamDocument(request.id, document.id)),
+    ).toBe("%PDF-1.4\n%%EOF\n");
+
+    tampered = true;
+    const error = await read(
+      await yousign.streamDocument(request.id, document.id),
+    ).catch((e) => e);
+    expect(error).toBeInstanceOf(IntegrityError);
+    expect(error.expected).toBe(document.sha256);
+    expect(error.actual).not.toBe(document.sha256);
+
+    expect(
+      await read(
+        await yousign.streamDocument(request.id, document.id, {
+          verify: false,
+        }),
+      ),
+    ).toContain("%tampered");
+  });
+});
+
+describe("writeStream", () => {
+  it("writes a large stream to a Node writable without piling up listeners", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "yousign-"));
+    const warning = vi.fn();
+    process.on("warning", warning);
+    try {
+      const chunk = new Uint8Array(64 * 1024);
+      let sent = 0;
+      const stream = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          sent++ < 200 ? controller.enqueue(chunk) : controller.close();
+        },
+      });
+      const path = join(directory, "document.pdf");
+      const writable = createWriteStream(path, { highWaterMark: 16 * 1024 });
+
+      await writeStream(stream, writable);
+
+      expect((await stat(path)).size).toBe(200 * chunk.length);
+      expect(writable.listenerCount("error")).toBeLessThanOrEqual(1);
+      expect(writable.listenerCount("drain")).toBe(0);
+      expect(warning).not.toHaveBeenCalled();
+    } finally {
+      process.off("warning", warning);
+      await rm(directory, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,121 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  FixtureMismatchError,
+  YouSignClient,
+  type FixtureMode,
+} from "../src/index";
+import { MockYouSignServer } from "../src/mock";
+import type { FixtureFile } from "../src/types";
+
+const apiKey = "sk_live_0123456789abcdef";
+
+const pdf = new File(["%PDF-1.4\n%%EOF\n"], "contract.pdf", {
+  type: "application/pdf",
+});
+
+/** Runs a signature flow, the same calls are made when recording and replaying */
+async function signatureFlow(yousign: YouSignClient) {
+  const webhook = await yousign.createWebhook({
+    endpoint: "https://example.com/webhooks",
+    subscribed_events: ["*"],
+    sandbox: true,
+    auto_retry: false,
+  });
+  const request = await yousign.createSignatureRequest({
+    name: "Contract",
+    delivery_mode: "none",
+  });
+  const document = await yousign.addDocument(request.id, {
+    file: pdf,
+    nature: "signable_document",
+  });
+  await yousign.addSigner(request.id, {
+    signature_level: "electronic_signature",
+    info: {
+      first_name: "Jane",
+      last_name: "Doe",
+      email: "jane@example.com",
+      phone_number: null,
+      locale: "en",
+    },
+    fields: [
+      { type: "signature", document_id: document.id, page: 1, x: 10, y: 10 },
+    ],
+  });
+  const activated = await yousign.activateSignatureRequest(request.id);
+  return { webhook, request, document, activated };
+}
+
+describe("fixtures", () => {
+  let directory: string;
+  let path: string;
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "yousign-fixtures-"));
+    path = join(directory, "fixtures", "signature-flow.json");
+  });
+  afterEach(async () => {
+    await rm(directory, { recursive: true });
+  });
+
+  const client = (mode: FixtureMode, fetch: typeof globalThis.fetch) =>
+    new YouSignClient(apiKey, {
+      ...new MockYouSignServer().clientOptions,
+      fetch,
+      fixtures: { mode, path },
+    });
+
+  it("replays a recorded flow without the secrets", async () => {
+    const server = new MockYouSignServer();
+    const recorded = await signatureFlow(client("record", server.fetch));
+    const signatureLink = recorded.activated.signers[0].signature_link!;
+    const token = new URL(signatureLink).searchParams.get("token")!;
+
+    const text = await readFile(path, "utf8");
+    expect(text).not.toContain(apiKey);
+    expect(text).not.toContain(recorded.webhook.secret_key);
+    expect(text).not.toContain(token);
+
+    const { interactions }: FixtureFile = JSON.parse(text);
+    const upload = interactions.find(({ request }) =>
+      request.path.endsWith("/documents"),
+    )!;
+    expect(upload.request.body).toMatchObject({
+      nature: "signable_document",
+      file: {
+        filename: "contract.pdf",
+        type: "application/pdf",
+        size: pdf.size,
+        sha256: recorded.document.sha256,
+      },
+    });
+
+    const replayed = await signatureFlow(
+      client("replay", () => Promise.reject(new Error("no network"))),
+    );
+    expect(replayed.request).toEqual(recorded.request);
+    expect(replayed.document).toEqual(recorded.document);
+    expect(replayed.webhook.secret_key).toBe("[REDACTED]");
+    const replayedLink = new URL(replayed.activated.signers[0].signature_link!);
+    expect(replayedLink.pathname).toBe(new URL(signatureLink).pathname);
+    expect(replayedLink.searchParams.get("token")).toBe("[REDACTED]");
+  });
+
+  it("throws a FixtureMismatchError for a request that wasn't recorded", async () => {
+    const server = new MockYouSignServer();
+    const { request } = await signatureFlow(client("record", server.fetch));
+
+    const yousign = client("replay", () =>
+      Promise.reject(new Error("no network")),
+    );
+    await signatureFlow(yousign);
+    const error = await yousign.getSignatureRequest(request.id).catch((e) => e);
+    expect(error).toBeInstanceOf(FixtureMismatchError);
+    expect(error.request).toEqual({
+      method: "GET",
+      path: `/v3/signature_requests/${request.id}`,
+    });
+  });
+});
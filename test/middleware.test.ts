@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { YouSignClient, withMiddleware } from "../src/index";
+import { MockYouSignServer } from "../src/mock";
+
+describe("middlewares", () => {
+  it("run in the order they were added around the request", async () => {
+    const server = new MockYouSignServer();
+    const calls: string[] = [];
+    const yousign = new YouSignClient("test", {
+      ...server.clientOptions,
+      fetch: (input, init) => {
+        calls.push("fetch");
+        return server.fetch(input, init);
+      },
+    });
+    yousign
+      .use(async (ctx, next) => {
+        calls.push("first");
+        ctx.state.first = true;
+        const response = await next();
+        calls.push("first done");
+        return response;
+      })
+      .use(async (ctx, next) => {
+        calls.push(`second, first ran: ${ctx.state.first}`);
+        const response = await next();
+        calls.push(`second done ${response.status}`);
+        return response;
+      });
+
+    await yousign.createSignatureRequest({
+      name: "Contract",
+      delivery_mode: "none",
+    });
+    expect(calls).toEqual([
+      "first",
+      "second, first ran: true",
+      "fetch",
+      "second done 201",
+      "first done",
+    ]);
+  });
+
+  it("sends the changed headers", async () => {
+    const server = new MockYouSignServer();
+    const sent: Headers[] = [];
+    const yousign = new YouSignClient("expired", {
+      ...server.clientOptions,
+      fetch: (input, init) => {
+        const request = new Request(input, init);
+        sent.push(request.headers);
+        return server.fetch(request);
+      },
+    });
+    yousign.use(async (ctx, next) => {
+      ctx.request.headers.set("X-Request-Id", "request-1");
+      ctx.request.headers.set("Authorization", "Bearer rotated");
+      return next();
+    });
+
+    await yousign.getRequests();
+    expect(sent).toHaveLength(1);
+    expect(sent[0].get("x-request-id")).toBe("request-1");
+    expect(sent[0].get("authorization")).toBe("Bearer rotated");
+  });
+
+  it("can call next again for a request with a body", async () => {
+    const bodies: string[] = [];
+    const fetch = withMiddleware(
+      [
+        async (ctx, next) => {
+          const response = await next();
+          if (response.status !== 401) {
+            return response;
+          }
+          ctx.request.headers.set("Authorization", "Bearer rotated");
+          return next();
+        },
+      ],
+      async (input, init) => {
+        const request = new Request(input, init);
+        bodies.push(await request.text());
+        return new Response(null, {
+          status:
+            request.headers.get("authorization") === "Bearer rotated"
+              ? 201
+              : 401,
+        });
+      },
+    );
+
+    const response = await fetch("https://api.yousign.app/v3/contacts", {
+      method: "POST",
+      headers: { Authorization: "Bearer expired" },
+      body: JSON.stringify({ first_name: "Jane" }),
+    });
+    expect(response.status).toBe(201);
+    expect(bodies).toEqual(['{"first_name":"Jane"}', '{"first_name":"Jane"}']);
+  });
+});
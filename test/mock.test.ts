@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { ConflictError, YouSignClient } from "../src/index";
+import { MockYouSignServer } from "../src/mock";
+
+const pdf = new File(
+  ["%PDF-1.4\n1 0 obj\n<< /Type /Page >>\nendobj\n"],
+  "contract.pdf",
+  {
+    type: "application/pdf",
+  },
+);
+
+async function readyToActivate(yousign: YouSignClient) {
+  const request = await yousign.createSignatureRequest({
+    name: "Contract",
+    delivery_mode: "none",
+  });
+  const document = await yousign.addDocument(request.id, {
+    file: pdf,
+    nature: "signable_document",
+  });
+  const signer = await yousign.addSigner(request.id, {
+    signature_level: "electronic_signature",
+    info: {
+      first_name: "Jane",
+      last_name: "Doe",
+      email: "jane@example.com",
+      phone_number: null,
+      locale: "en",
+    },
+    fields: [
+      { type: "signature", document_id: document.id, page: 1, x: 10, y: 10 },
+    ],
+  });
+  return { request, signer };
+}
+
+describe("MockYouSignServer", () => {
+  it("runs a request from draft to done", async () => {
+    const server = new MockYouSignServer();
+    const yousign = new YouSignClient("test", server.clientOptions);
+    const { request, signer } = await readyToActivate(yousign);
+
+    const activated = await yousign.activateSignatureRequest(request.id);
+    expect(activated.status).toBe("ongoing");
+
+    await server.sign(request.id, signer.id);
+    expect((await yousign.getSignatureRequest(request.id)).status).toBe("done");
+  });
+
+  it("answers invalid state transitions with a ConflictError", async () => {
+    const server = new MockYouSignServer();
+    const yousign = new YouSignClient("test", server.clientOptions);
+    const { request } = await readyToActivate(yousign);
+    await yousign.activateSignatureRequest(request.id);
+
+    await expect(
+      yousign.activateSignatureRequest(request.id),
+    ).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it("keeps the API working when the webhook endpoint fails", async () => {
+    let calls = 0;
+    const server = new MockYouSignServer({
+      webhooks: true,
+      webhookFetch: async () => {
+        calls++;
+        if (calls % 2) {
+          throw new Error("endpoint down");
+        }
+        return new Response(null, { status: 500 });
+      },
+    });
+    const yousign = new YouSignClient("test", server.clientOptions);
+    await yousign.createWebhook({
+      endpoint: "https://example.com/webhooks",
+      subscribed_events: ["*"],
+      sandbox: true,
+      auto_retry: false,
+    });
+
+    const { request, signer } = await readyToActivate(yousign);
+    await yousign.activateSignatureRequest(request.id);
+    await server.sign(request.id, signer.id);
+
+    expect((await yousign.getSignatureRequest(request.id)).status).toBe("done");
+    expect(server.deliveries.length).toBeGreaterThan(0);
+    expect(server.deliveries[0]).toMatchObject({
+      event_name: "signature_request.created",
+      status: null,
+      error: "endpoint down",
+    });
+    expect(server.deliveries[1]).toMatchObject({
+      status: 500,
+      error: "The endpoint answered with status 500",
+    });
+  });
+
+  it("links the followers to their signature request", async () => {
+    const server = new MockYouSignServer();
+    const yousign = new YouSignClient("test", server.clientOptions);
+    const request = await yousign.createSignatureRequest({
+      name: "Contract",
+      delivery_mode: "none",
+    });
+
+    await yousign.addFollowers(request.id, [
+      { email: "legal@example.com", locale: "en" },
+    ]);
+    expect(await yousign.getFollowers(request.id)).toMatchObject([
+      { email: "legal@example.com", signature_request_id: request.id },
+    ]);
+  });
+
+  it("rejects with the abort reason once the signal aborts", async () => {
+    const server = new MockYouSignServer();
+    const url = `${server.baseURL}/signature_requests`;
+    const headers = { Authorization: "Bearer test" };
+
+    const controller = new AbortController();
+    const pending = server.fetch(url, { headers, signal: controller.signal });
+    controller.abort(new Error("navigated away"));
+    await expect(pending).rejects.toThrow("navigated away");
+
+    await expect(
+      server.fetch(url, { headers, signal: AbortSignal.abort() }),
+    ).rejects.toMatchObject({ name: "AbortError" });
+    const yousign = new YouSignClient("test", server.clientOptions);
+    await expect(
+      yousign.getRequests({}, { signal: controller.signal }),
+    ).rejects.toThrow("navigated away");
+  });
+});
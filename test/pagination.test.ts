@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { YouSignClient } from "../src/index";
+
+describe("iterateContacts", () => {
+  it("aborts the request of the current page", async () => {
+    const controller = new AbortController();
+    const yousign = new YouSignClient("test", {
+      environment: "sandbox",
+      fetch: (input: RequestInfo | URL, init?: RequestInit) => {
+        const url = new URL(input instanceof Request ? input.url : input);
+        if (!url.searchParams.has("after")) {
+          return Promise.resolve(
+            Response.json({
+              data: [{ id: "first" }],
+              meta: { next_cursor: "cursor" },
+            }),
+          );
+        }
+        //the second page only answers once the request got aborted
+        return new Promise<Response>((_, reject) =>
+          init?.signal?.addEventListener("abort", () =>
+            reject(init.signal!.reason),
+          ),
+        );
+      },
+    });
+
+    const ids: string[] = [];
+    const iterating = (async () => {
+      for await (const contact of yousign.iterateContacts(
+        {},
+        { signal: controller.signal },
+      )) {
+        ids.push(contact.id);
+        setTimeout(() => controller.abort(), 10);
+      }
+    })();
+
+    await expect(iterating).rejects.toThrow();
+    expect(ids).toEqual(["first"]);
+  });
+});
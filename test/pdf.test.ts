@@ -0,0 +1,227 @@
+import { deflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { scanAnchors } from "../src/anchors";
+import { readPdfText, type PdfPage } from "../src/pdf";
+
+const encoder = new TextEncoder();
+
+function concat(parts: (string | Uint8Array)[]): Uint8Array {
+  const bytes = parts.map((part) =>
+    typeof part === "string" ? encoder.encode(part) : part,
+  );
+  const result = new Uint8Array(bytes.reduce((sum, b) => sum + b.length, 0));
+  let offset = 0;
+  for (const part of bytes) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function stream(dict: string, data: string | Uint8Array, compress = false) {
+  const raw = typeof data === "string" ? encoder.encode(data) : data;
+  const body = compress ? deflateSync(raw) : raw;
+  const filter = compress ? " /Filter /FlateDecode" : "";
+  return concat([
+    `<< ${dict}${filter} /Length ${body.length} >>\nstream\n`,
+    body,
+    "\nendstream",
+  ]);
+}
+
+type Section = {
+  /** Objects written at the top level of the file */
+  objects: Record<number, string | Uint8Array>;
+  /** Objects packed into an object stream, the xref is written as a stream if set */
+  packed?: Record<number, string>;
+  /** Numbers of the object stream and the xref stream */
+  streams?: { objects: number; xref: number };
+  size: number;
+};
+
+/**
+ * Appends a section of objects with its xref and trailer, the same way writers do it for incremental updates.
+ * An empty base writes a new file
+ */
+function appendSection(base: Uint8Array, section: Section): Uint8Array {
+  const parts: (string | Uint8Array)[] = [base.length ? base : "%PDF-1.7\n"];
+  let length = base.length || parts[0].length;
+  //[num, type, field 2, field 3] as in the xref streams, type 1 is an offset, type 2 a packed object
+  const entries: [number, number, number, number][] = [];
+  const write = (num: number, body: string | Uint8Array) => {
+    entries.push([num, 1, length, 0]);
+    const object = concat([`${num} 0 obj\n`, body, "\nendobj\n"]);
+    parts.push(object);
+    length += object.length;
+  };
+
+  for (const [num, body] of Object.entries(section.objects)) {
+    write(Number(num), body);
+  }
+  const prev = base.length
+    ? ` /Prev ${/startxref\s+(\d+)\s+%%EOF\s*$/.exec(new TextDecoder().decode(base))![1]}`
+    : "";
+  const trailer = `/Size ${section.size} /Root 1 0 R${prev}`;
+
+  if (!section.streams) {
+    const table = entries
+      .map(
+        ([num, , offset]) =>
+          `${num} 1\n${String(offset).padStart(10, "0")} 00000 n \n`,
+      )
+      .join("");
+    const free = base.length ? "" : "0 1\n0000000000 65535 f \n";
+    parts.push(
+      `xref\n${free}${table}trailer\n<< ${trailer} >>\nstartxref\n${length}\n%%EOF\n`,
+    );
+    return concat(parts);
+  }
+
+  const packed = Object.entries(section.packed ?? {});
+  if (packed.length) {
+    let header = "";
+    let body = "";
+    packed.forEach(([num, object], index) => {
+      header += `${num} ${body.length} `;
+      body += `${object}\n`;
+      entries.push([Number(num), 2, section.streams!.objects, index]);
+    });
+    write(
+      section.streams.objects,
+      stream(
+        `/Type /ObjStm /N ${packed.length} /First ${header.length}`,
+        header + body,
+        true,
+      ),
+    );
+  }
+  const xrefOffset = length;
+  entries.push([section.streams.xref, 1, xrefOffset, 0]);
+  entries.sort(([a], [b]) => a - b);
+
+  const rows = entries.flatMap(([, type, field, index]) => [
+    type,
+    ...[24, 16, 8, 0].map((shift) => (field >>> shift) & 0xff),
+    index >> 8,
+    index & 0xff,
+  ]);
+  const index = entries.flatMap(([num]) => [num, 1]).join(" ");
+  write(
+    section.streams.xref,
+    stream(
+      `/Type /XRef ${trailer} /W [1 4 2] /Index [${index}]`,
+      new Uint8Array(rows),
+      true,
+    ),
+  );
+  parts.push(`startxref\n${xrefOffset}\n%%EOF\n`);
+  return concat(parts);
+}
+
+const helvetica = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>";
+
+function text(page: PdfPage): string {
+  return page.glyphs.map((glyph) => glyph.text).join("");
+}
+
+describe("readPdfText", () => {
+  it("reads every page of a nested page tree", async () => {
+    const pdf = appendSection(new Uint8Array(), {
+      objects: {
+        1: "<< /Type /Catalog /Pages 2 0 R >>",
+        2: "<< /Type /Pages /Kids [3 0 R 5 0 R] /Count 3 /MediaBox [0 0 595 842] /Resources << /Font << /F1 9 0 R >> >> >>",
+        3: "<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>",
+        4: stream("", "BT /F1 12 Tf 72 700 Td (First page) Tj ET"),
+        5: "<< /Type /Pages /Parent 2 0 R /Kids [6 0 R 7 0 R] /Count 2 >>",
+        6: "<< /Type /Page /Parent 5 0 R /Contents 8 0 R >>",
+        7: "<< /Type /Page /Parent 5 0 R /MediaBox [0 0 842 595] /Contents [10 0 R 11 0 R] >>",
+        8: stream(
+          "",
+          "BT /F1 10 Tf 100 500 Td ({{s1|signature|85|37}}) Tj ET",
+          true,
+        ),
+        9: helvetica,
+        10: stream("", "BT /F1 12 Tf 72 300 Td (Third) Tj", true),
+        11: stream("", "( page) Tj ET"),
+      },
+      size: 12,
+    });
+
+    const pages = await readPdfText(pdf);
+    expect(pages.map(text)).toEqual([
+      "First page",
+      "{{s1|signature|85|37}}",
+      "Third page",
+    ]);
+    expect(pages.map((page) => page.mediaBox)).toEqual([
+      [0, 0, 595, 842],
+      [0, 0, 595, 842],
+      [0, 0, 842, 595],
+    ]);
+    expect(pages[0].glyphs[0]).toEqual({ text: "F", x: 72, y: 700, size: 12 });
+
+    const { anchors, issues } = await scanAnchors(pdf);
+    expect(issues).toEqual([]);
+    expect(anchors).toMatchObject([
+      { tag: "{{s1|signature|85|37}}", page: 2, x: 100, signer: 1 },
+    ]);
+  });
+
+  it("reads the objects of a compressed xref and object streams", async () => {
+    const pdf = appendSection(new Uint8Array(), {
+      objects: {
+        4: stream("", "BT /F1 12 Tf 72 700 Td (Compressed) Tj ET", true),
+      },
+      packed: {
+        1: "<< /Type /Catalog /Pages 2 0 R >>",
+        2: "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+        3: "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>",
+        5: helvetica,
+      },
+      streams: { objects: 6, xref: 7 },
+      size: 8,
+    });
+
+    const pages = await readPdfText(pdf);
+    expect(pages.map(text)).toEqual(["Compressed"]);
+    expect(pages[0].mediaBox).toEqual([0, 0, 612, 792]);
+  });
+
+  it("reads the latest version of the objects changed by incremental updates", async () => {
+    const original = appendSection(new Uint8Array(), {
+      objects: {
+        1: "<< /Type /Catalog /Pages 2 0 R >>",
+        2: "<< /Type /Pages /Kids [3 0 R] /Count 1 /MediaBox [0 0 595 842] >>",
+        3: "<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>",
+        4: stream("", "BT /F1 12 Tf 72 700 Td (Draft) Tj ET"),
+        5: helvetica,
+      },
+      size: 6,
+    });
+    //a second page and a new version of the content of the first one
+    const updated = appendSection(original, {
+      objects: {
+        2: "<< /Type /Pages /Kids [3 0 R 6 0 R] /Count 2 /MediaBox [0 0 595 842] >>",
+        4: stream("", "BT /F1 12 Tf 72 700 Td (Final) Tj ET"),
+        6: "<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> >> /Contents 7 0 R >>",
+        7: stream("", "BT /F1 12 Tf 72 700 Td (Annex) Tj ET", true),
+      },
+      size: 8,
+    });
+    //the first page moves into an object stream and points to new content
+    const signed = appendSection(updated, {
+      objects: {
+        8: stream("", "BT /F1 12 Tf 72 700 Td (Signed) Tj ET", true),
+      },
+      packed: {
+        3: "<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> >> /Contents 8 0 R >>",
+      },
+      streams: { objects: 9, xref: 10 },
+      size: 11,
+    });
+
+    expect((await readPdfText(original)).map(text)).toEqual(["Draft"]);
+    expect((await readPdfText(updated)).map(text)).toEqual(["Final", "Annex"]);
+    expect((await readPdfText(signed)).map(text)).toEqual(["Signed", "Annex"]);
+  });
+});
@@ -0,0 +1,84 @@
+import { FetchError } from "ofetch";
+import { describe, expect, it } from "vitest";
+import {
+  RequestValidationError,
+  SchedulerQueueFullError,
+  YouSignClient,
+  isRetryable,
+} from "../src/index";
+
+function clientAnswering(...responses: (() => Response)[]) {
+  const methods: string[] = [];
+  const yousign = new YouSignClient("test", {
+    environment: "sandbox",
+    retry: { baseDelay: 0, jitter: false },
+    fetch: async (input, init) => {
+      methods.push(
+        init?.method ?? (input instanceof Request ? input.method : "GET"),
+      );
+      return responses[methods.length - 1]();
+    },
+  });
+  return { yousign, methods };
+}
+
+const json =
+  (status: number, body: object = {}) =>
+  () =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { "content-type": "application/json", "retry-after": "0" },
+    });
+
+describe("withRetry", () => {
+  it("retries a rate limited POST", async () => {
+    const { yousign, methods } = clientAnswering(
+      json(429),
+      json(201, { id: "request" }),
+    );
+
+    const request = await yousign.createSignatureRequest({
+      name: "Contract",
+      delivery_mode: "none",
+    });
+    expect(request.id).toBe("request");
+    expect(methods).toEqual(["POST", "POST"]);
+  });
+
+  it("doesn't retry a POST that failed with a 5XX", async () => {
+    const { yousign, methods } = clientAnswering(json(503), json(201));
+
+    await expect(
+      yousign.createSignatureRequest({
+        name: "Contract",
+        delivery_mode: "none",
+      }),
+    ).rejects.toMatchObject({ status: 503 });
+    expect(methods).toEqual(["POST"]);
+  });
+});
+
+describe("isRetryable", () => {
+  it("retries network failures", () => {
+    const error = new FetchError("fetch failed", {
+      cause: new TypeError("fetch failed"),
+    });
+    expect(isRetryable("GET", error)).toBe(true);
+    expect(isRetryable("POST", error)).toBe(false);
+  });
+
+  it("doesn't retry errors thrown before the request is sent", () => {
+    expect(isRetryable("GET", new SchedulerQueueFullError(10))).toBe(false);
+    expect(isRetryable("GET", new RequestValidationError([]))).toBe(false);
+    expect(
+      isRetryable("GET", new TypeError("undefined is not a function")),
+    ).toBe(false);
+  });
+
+  it("doesn't retry aborted requests", () => {
+    const error = new FetchError("aborted", {
+      cause: new DOMException("aborted", "AbortError"),
+    });
+    expect(isRetryable("GET", error)).toBe(false);
+  });
+});
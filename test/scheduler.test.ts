@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  RateLimitError,
+  RequestScheduler,
+  SchedulerQueueFullError,
+} from "../src/index";
+import type { SchedulerMetrics } from "../src/types";
+
+/** Task that stays in flight until it's settled by hand */
+function pending<T = void>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { task: () => promise, resolve, reject };
+}
+
+describe("RequestScheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sends no more requests than the tokens of the quota", async () => {
+    const scheduler = new RequestScheduler({ concurrency: 10, perSecond: 2 });
+    const started: number[] = [];
+    const results = Array.from({ length: 5 }, (_, i) =>
+      scheduler.schedule(async () => {
+        started.push(i);
+      }),
+    );
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1]);
+    //the bucket is refilled continuously, a token every 500ms
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toEqual([0, 1, 2]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started).toEqual([0, 1, 2, 3, 4]);
+    await Promise.all(results);
+  });
+
+  it("lets requests with a higher priority overtake the queued ones", async () => {
+    const scheduler = new RequestScheduler({ concurrency: 1 });
+    const blocking = pending();
+    const order: string[] = [];
+    const running = scheduler.schedule(blocking.task);
+    const results = (["low", "auto", "high", "auto"] as const).map(
+      (priority, i) =>
+        scheduler.schedule(async () => {
+          order.push(`${priority} ${i}`);
+        }, priority),
+    );
+
+    blocking.resolve();
+    await Promise.all([running, ...results]);
+    expect(order).toEqual(["high 2", "auto 1", "auto 3", "low 0"]);
+  });
+
+  it("holds back the queue for the retry-after of a 429", async () => {
+    const scheduler = new RequestScheduler({ concurrency: 1 });
+    const started: number[] = [];
+    const limited = scheduler.schedule(async () => {
+      started.push(Date.now());
+      throw new RateLimitError({
+        status: 429,
+        method: "GET",
+        endpoint: "/signature_requests",
+        requestId: null,
+        problem: null,
+        retryAfter: 2,
+      });
+    });
+    const next = scheduler.schedule(async () => {
+      started.push(Date.now());
+    });
+
+    await expect(limited).rejects.toBeInstanceOf(RateLimitError);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(started).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await next;
+    expect(started[1] - started[0]).toBe(2000);
+  });
+
+  it("rejects requests once the queue holds maxQueueSize of them", async () => {
+    const scheduler = new RequestScheduler({ concurrency: 1, maxQueueSize: 1 });
+    const blocking = pending();
+    const running = scheduler.schedule(blocking.task);
+    const queued = scheduler.schedule(async () => "queued");
+
+    await expect(scheduler.schedule(async () => "full")).rejects.toBeInstanceOf(
+      SchedulerQueueFullError,
+    );
+    blocking.resolve();
+    await running;
+    expect(await queued).toBe("queued");
+  });
+
+  it("reports the queue and the requests in flight", async () => {
+    const metrics: SchedulerMetrics[] = [];
+    const scheduler = new RequestScheduler({
+      concurrency: 1,
+      onMetrics: (snapshot) => metrics.push(snapshot),
+    });
+    const blocking = pending();
+    const running = scheduler.schedule(blocking.task);
+    const queued = scheduler.schedule(async () => {}, "low");
+
+    expect(scheduler.metrics).toEqual({
+      queued: 1,
+      running: 1,
+      queuedByPriority: { high: 0, auto: 0, low: 1 },
+    });
+    blocking.resolve();
+    await Promise.all([running, queued]);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(metrics.map(({ queued, running }) => [queued, running])).toEqual([
+      [1, 0],
+      [0, 1],
+      [1, 1],
+      [1, 0],
+      [0, 1],
+      [0, 0],
+    ]);
+  });
+
+  it("drops a queued request when its signal is aborted", async () => {
+    const scheduler = new RequestScheduler({ concurrency: 1 });
+    const blocking = pending();
+    const running = scheduler.schedule(blocking.task);
+    const controller = new AbortController();
+    const task = vi.fn(async () => {});
+    const aborted = scheduler.schedule(task, "auto", controller.signal);
+
+    controller.abort(new Error("user left"));
+    await expect(aborted).rejects.toThrow("user left");
+    expect(scheduler.metrics.queued).toBe(0);
+
+    blocking.resolve();
+    await running;
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).not.toHaveBeenCalled();
+    await expect(
+      scheduler.schedule(task, "auto", controller.signal),
+    ).rejects.toThrow("user left");
+  });
+});
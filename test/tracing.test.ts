@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { NotFoundError, YouSignClient, withTracing } from "../src/index";
+import { MockYouSignServer } from "../src/mock";
+import type { SpanAttributes, Tracer, TracingSpan } from "../src/types";
+
+type RecordedSpan = {
+  name: string;
+  kind?: number;
+  attributes: SpanAttributes;
+  status?: { code: number; message?: string };
+  exceptions: Error[];
+  ended: boolean;
+};
+
+/** Tracer that keeps the spans in the order they were started */
+function fakeTracer() {
+  const spans: RecordedSpan[] = [];
+  const tracer: Tracer = {
+    startActiveSpan(name, options, fn) {
+      const recorded: RecordedSpan = {
+        name,
+        kind: options.kind,
+        attributes: { ...options.attributes },
+        exceptions: [],
+        ended: false,
+      };
+      spans.push(recorded);
+      const span: TracingSpan = {
+        setAttribute: (key, value) => (recorded.attributes[key] = value),
+        setStatus: (status) => (recorded.status = status),
+        recordException: (exception) => recorded.exceptions.push(exception),
+        end: () => (recorded.ended = true),
+      };
+      return fn(span) as ReturnType<typeof fn>;
+    },
+  };
+  return { tracer, spans };
+}
+
+const pdf = new File(["%PDF-1.4\n%%EOF\n"], "contract.pdf", {
+  type: "application/pdf",
+});
+
+describe("tracing", () => {
+  it("wraps the methods and the requests in spans", async () => {
+    const server = new MockYouSignServer();
+    const { tracer, spans } = fakeTracer();
+    const yousign = new YouSignClient("test", {
+      ...server.clientOptions,
+      tracer,
+    });
+
+    const request = await yousign.createSignatureRequest({
+      name: "Contract",
+      delivery_mode: "none",
+    });
+    await yousign.addDocument(request.id, {
+      file: pdf,
+      nature: "signable_document",
+    });
+    await yousign.getSignatureRequest(request.id);
+
+    expect(spans.map(({ name }) => name)).toEqual([
+      "yousign.createSignatureRequest",
+      "POST /signature_requests",
+      "yousign.addDocument",
+      "POST /signature_requests/{signatureRequestId}/documents",
+      "yousign.getSignatureRequest",
+      "GET /signature_requests/{signatureRequestId}",
+    ]);
+    expect(spans.every(({ ended }) => ended)).toBe(true);
+    expect(spans[0]).toMatchObject({
+      kind: 0,
+      attributes: {
+        "code.function": "createSignatureRequest",
+        "yousign.signature_request.id": request.id,
+      },
+    });
+    expect(spans[3]).toMatchObject({
+      kind: 2,
+      attributes: {
+        "http.request.method": "POST",
+        "http.route": "/signature_requests/{signatureRequestId}/documents",
+        "url.full": `${server.baseURL}/signature_requests/${request.id}/documents`,
+        "server.address": "mock.yousign.local",
+        "yousign.signature_request.id": request.id,
+        "yousign.document.size": pdf.size,
+        "http.response.status_code": 201,
+      },
+    });
+  });
+
+  it("marks the spans of failed requests as errors", async () => {
+    const server = new MockYouSignServer();
+    const { tracer, spans } = fakeTracer();
+    const yousign = new YouSignClient("test", {
+      ...server.clientOptions,
+      tracer,
+    });
+
+    await expect(yousign.getSignatureRequest("missing")).rejects.toBeInstanceOf(
+      NotFoundError,
+    );
+    const [method, http] = spans;
+    expect(method).toMatchObject({
+      name: "yousign.getSignatureRequest",
+      attributes: { "error.type": "NotFoundError" },
+      status: { code: 2 },
+    });
+    expect(method.exceptions[0]).toBeInstanceOf(NotFoundError);
+    expect(http).toMatchObject({
+      name: "GET /signature_requests/{signatureRequestId}",
+      attributes: {
+        "http.response.status_code": 404,
+        "error.type": "404",
+      },
+      status: { code: 2 },
+    });
+  });
+
+  it("traces requests sent to a relative URL without their server", async () => {
+    const { tracer, spans } = fakeTracer();
+    const fetch = withTracing(tracer, async () => new Response(null));
+
+    await fetch("/signature_requests/abc/signers/def", { method: "delete" });
+    expect(spans).toEqual([
+      expect.objectContaining({
+        name: "DELETE /signature_requests/{signatureRequestId}/signers/{signerId}",
+        attributes: {
+          "http.request.method": "DELETE",
+          "http.route":
+            "/signature_requests/{signatureRequestId}/signers/{signerId}",
+          "yousign.signature_request.id": "abc",
+          "http.response.status_code": 200,
+        },
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  RequestValidationError,
+  YouSignClient,
+  validateSigner,
+  validateUpdateSigner,
+} from "../src/index";
+import { MockYouSignServer } from "../src/mock";
+import type { AddSignerOptions, ValidationIssue } from "../src/types";
+
+const signer: AddSignerOptions = {
+  signature_level: "electronic_signature",
+  signature_authentication_mode: "otp_sms",
+  info: {
+    first_name: "Jane",
+    last_name: "Doe",
+    email: "jane@example.com",
+    phone_number: null,
+    locale: "en",
+  },
+};
+
+const missingPhone = {
+  path: "info.phone_number",
+  message: "is required when signature_authentication_mode is otp_sms",
+};
+
+describe("validateSigner", () => {
+  it("requires a phone number for otp_sms", () => {
+    expect(validateSigner(signer)).toEqual([missingPhone]);
+    const { phone_number: _, ...info } = signer.info!;
+    expect(validateSigner({ ...signer, info } as AddSignerOptions)).toEqual([
+      missingPhone,
+    ]);
+  });
+
+  it("only checks the phone number of an update if it's changed", () => {
+    expect(
+      validateUpdateSigner({
+        signature_authentication_mode: "otp_sms",
+        info: { first_name: "Janet" },
+      }),
+    ).toEqual([]);
+    expect(
+      validateUpdateSigner({
+        signature_authentication_mode: "otp_sms",
+        info: { phone_number: null },
+      }),
+    ).toEqual([missingPhone]);
+  });
+});
+
+describe("validation modes", () => {
+  it("passes the issues to the option and the hook in warn mode", async () => {
+    const server = new MockYouSignServer();
+    const warnings: ValidationIssue[][] = [];
+    const yousign = new YouSignClient("test", {
+      ...server.clientOptions,
+      onValidationWarning: (issues) => warnings.push(issues),
+    });
+    yousign.hooks.hook("onValidationWarning", (issues) => {
+      warnings.push(issues);
+    });
+    const request = await yousign.createSignatureRequest({
+      name: "Contract",
+      delivery_mode: "none",
+    });
+
+    await yousign.addSigner(request.id, signer);
+    expect(warnings).toEqual([[missingPhone], [missingPhone]]);
+  });
+
+  it("throws before sending the request in strict mode", async () => {
+    const server = new MockYouSignServer();
+    const yousign = new YouSignClient("test", {
+      ...server.clientOptions,
+      validation: "strict",
+    });
+    const request = await yousign.createSignatureRequest({
+      name: "Contract",
+      delivery_mode: "none",
+    });
+
+    await expect(yousign.addSigner(request.id, signer)).rejects.toBeInstanceOf(
+      RequestValidationError,
+    );
+    const { signers } = await yousign.getSignatureRequest(request.id);
+    expect(signers).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import type { WebhookEvent } from "../src/types";
+import {
+  SIGNATURE_HEADER,
+  WebhookReceiver,
+  computeWebhookSignature,
+} from "../src/webhooks";
+
+const secret = "webhook-secret";
+
+function eventBytes(name: Uint8Array) {
+  const encoder = new TextEncoder();
+  const [before, after] = JSON.stringify({
+    event_id: "event",
+    event_name: "signature_request.done",
+    event_time: "1700000000",
+    subscription_id: "subscription",
+    subscription_description: "test",
+    sandbox: true,
+    data: { signature_request: { id: "request", name: "NAME" } },
+  }).split("NAME");
+  return new Uint8Array([
+    ...encoder.encode(before),
+    ...name,
+    ...encoder.encode(after),
+  ]);
+}
+
+async function post(receiver: WebhookReceiver, body: Uint8Array) {
+  return receiver.handle(
+    new Request("https://example.com/webhooks", {
+      method: "POST",
+      body: body as BodyInit,
+      headers: {
+        [SIGNATURE_HEADER]: `sha256=${await computeWebhookSignature(body, secret)}`,
+      },
+    }),
+  );
+}
+
+describe("WebhookReceiver", () => {
+  it("calls the hooks of a verified event", async () => {
+    const receiver = new WebhookReceiver(secret);
+    const events: WebhookEvent[] = [];
+    receiver.hooks.hook("signature_request.done", (event) => {
+      events.push(event);
+    });
+
+    const response = await post(
+      receiver,
+      eventBytes(new TextEncoder().encode("Contract")),
+    );
+    expect(response.status).toBe(204);
+    expect(events.map((event) => event.event_id)).toEqual(["event"]);
+  });
+
+  it("verifies the signature over the raw bytes of the body", async () => {
+    const receiver = new WebhookReceiver(secret);
+    //invalid UTF-8 is replaced when decoded, which would change the signed payload
+    const response = await post(receiver, eventBytes(new Uint8Array([0xff])));
+    expect(response.status).toBe(204);
+  });
+
+  it("rejects a request with an invalid signature", async () => {
+    const receiver = new WebhookReceiver(secret);
+    const response = await receiver.handle(
+      new Request("https://example.com/webhooks", {
+        method: "POST",
+        body: "{}",
+        headers: { [SIGNATURE_HEADER]: "sha256=00" },
+      }),
+    );
+    expect(response.status).toBe(401);
+  });
+});